@@ -1,36 +1,134 @@
-import { Hono } from "hono";
+import { type Context, Hono } from "hono";
 import { bearerAuth } from "hono/bearer-auth";
 import { createServiceContainer } from "../../src/services";
 import { EnvVar } from "../../src/types";
-import { DiscordService, LimiterService } from "./services";
+import {
+  AccessControlService,
+  DeliveryStoreService,
+  DispatchQueueService,
+  getDeliveryKeys,
+  HealthService,
+  JobStoreService,
+  LimiterService,
+  MetricsService,
+  NotificationDispatcher,
+  PayloadStoreService,
+  ProjectRegistryService,
+  parseAccessRules,
+  parseProjectSettings,
+  ResourceLockService,
+  StateStoreService,
+  toRegistrationView,
+} from "./services";
+import { GitLabAdapterFactory } from "./services/gitlab.factory";
 import { LoggerService } from "./services/logger.service";
 import { RedisAdapterFactory } from "./services/redis.factory";
-import type { WebhookPayload } from "./types";
+import type {
+  AccessRules,
+  JobListOptions,
+  ProjectSettings,
+  RegistryTarget,
+  WebhookCredentials,
+  WebhookPayload,
+  WebhookProcessingResult,
+} from "./types";
 import { WebhookOrchestrator } from "./webhook-orchestrator";
 
 // Create service container with real implementations
 const services = createServiceContainer();
 const logger = new LoggerService(services.environment);
-const discord = new DiscordService(
+const metrics = new MetricsService();
+const notifications = new NotificationDispatcher(
   logger,
   services.environment,
   services.httpClient,
 );
 const redisAdapterFactory = new RedisAdapterFactory(services.environment);
-const limiter = new LimiterService(redisAdapterFactory, services.environment);
+const limiter = new LimiterService(
+  redisAdapterFactory,
+  services.environment,
+  logger,
+  metrics,
+);
+const jobStore = new JobStoreService(redisAdapterFactory);
+const stateStore = new StateStoreService(
+  redisAdapterFactory,
+  services.environment,
+);
+const payloadStore = new PayloadStoreService(redisAdapterFactory);
+const resourceLock = new ResourceLockService(
+  redisAdapterFactory,
+  services.environment,
+);
+const dispatchQueue = new DispatchQueueService(
+  redisAdapterFactory,
+  services.environment,
+);
+const deliveryStore = new DeliveryStoreService(
+  redisAdapterFactory,
+  services.environment,
+);
+const accessControl = new AccessControlService(
+  redisAdapterFactory,
+  services.environment,
+  logger,
+);
+const registry = new ProjectRegistryService(redisAdapterFactory);
+const gitLabAdapters = new GitLabAdapterFactory(
+  services.gitLabAdapter,
+  services.gitLabContext,
+);
+const health = new HealthService(
+  redisAdapterFactory,
+  services.gitLabAdapter,
+  services.environment,
+  metrics,
+);
 
 // Create webhook orchestrator with injected services
 const webhookOrchestrator = new WebhookOrchestrator(
   services.environment,
   services.logger,
   services.httpClient,
-  services.gitLabAdapter,
-  discord,
+  gitLabAdapters,
+  notifications,
   limiter,
+  jobStore,
+  stateStore,
+  payloadStore,
+  resourceLock,
+  dispatchQueue,
+  accessControl,
+  registry,
+  metrics,
 );
 
+// Queued jobs are persisted in Redis. Dispatch them after a restart and
+// periodically, for slots freed by pipelines that never reported back.
+const DISPATCH_INTERVAL_MS = 30 * 1000;
+
+function dispatchQueuedJobs() {
+  webhookOrchestrator.dispatchQueued().catch((error) => {
+    services.logger.warn("Failed to dispatch queued jobs", {
+      error: error instanceof Error ? error.message : error,
+    });
+  });
+}
+
+dispatchQueuedJobs();
+setInterval(dispatchQueuedJobs, DISPATCH_INTERVAL_MS);
+
 const app = new Hono();
 
+const adminAuth = bearerAuth({
+  token: services.environment.get(EnvVar.ADMIN_TOKEN) || "",
+});
+
+// Pipelines authenticate with WEBHOOK_PAYLOAD_TOKEN when calling back
+const pipelineAuth = bearerAuth({
+  token: services.environment.get(EnvVar.WEBHOOK_PAYLOAD_TOKEN) || "",
+});
+
 // Log all requests
 app.use("*", async (c, next) => {
   const start = Date.now();
@@ -60,27 +158,231 @@ app.use("*", async (c, next) => {
 
 app.get("/health", (c) => c.text("ok"));
 
-// Optional admin endpoint to disable bot
+// Liveness: the process is up and serving requests
+app.get("/healthz", (c) => c.json({ status: "ok" }));
+
+// Readiness: configuration, Redis and GitLab token are usable
+app.get("/readyz", async (c) => {
+  const report = await health.checkReadiness();
+  if (report.status !== "ready") {
+    services.logger.warn("Readiness check failed", { checks: report.checks });
+  }
+  return c.json(report, report.status === "ready" ? 200 : 503);
+});
+
+// Prometheus scrape endpoint, protected only if METRICS_TOKEN is set
+const metricsToken = services.environment.get(EnvVar.METRICS_TOKEN);
 app.get(
-  "/admin/disable",
-  bearerAuth({ token: services.environment.get(EnvVar.ADMIN_TOKEN) || "" }),
-  (c) => {
-    services.environment.set(EnvVar.CLAUDE_ENABLED, "true");
-    services.logger.warn("Bot disabled via admin endpoint");
-    return c.text("disabled");
+  "/metrics",
+  metricsToken ? bearerAuth({ token: metricsToken }) : (_c, next) => next(),
+  (c) =>
+    c.text(metrics.render(), 200, {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+    }),
+);
+
+// Admin endpoints to disable and enable the bot, persisted in Redis
+app.get("/admin/disable", adminAuth, async (c) => {
+  await stateStore.setGlobalEnabled(false);
+  services.logger.warn("Bot disabled via admin endpoint");
+  return c.text("disabled");
+});
+
+app.get("/admin/enable", adminAuth, async (c) => {
+  await stateStore.setGlobalEnabled(true);
+  services.logger.info("Bot enabled via admin endpoint");
+  return c.text("enabled");
+});
+
+app.get("/admin/projects/:id/:action{disable|enable}", adminAuth, async (c) => {
+  const projectId = Number(c.req.param("id"));
+  if (!Number.isInteger(projectId)) {
+    return c.json({ error: "Invalid project ID" }, 400);
+  }
+
+  const enabled = c.req.param("action") === "enable";
+  await stateStore.setProjectEnabled(projectId, enabled);
+  services.logger.warn(
+    `Bot ${enabled ? "enabled" : "disabled"} for project via admin endpoint`,
+    { projectId },
+  );
+  return c.text(enabled ? "enabled" : "disabled");
+});
+
+// Group paths are URL-encoded like in the GitLab API (e.g. "acme%2Fplatform")
+app.get(
+  "/admin/groups/:group/:action{disable|enable}",
+  adminAuth,
+  async (c) => {
+    const groupPath = decodeURIComponent(c.req.param("group"));
+    const enabled = c.req.param("action") === "enable";
+    await stateStore.setGroupEnabled(groupPath, enabled);
+    services.logger.warn(
+      `Bot ${enabled ? "enabled" : "disabled"} for group via admin endpoint`,
+      { groupPath },
+    );
+    return c.text(enabled ? "enabled" : "disabled");
   },
 );
 
+app.get("/admin/state", adminAuth, async (c) => {
+  return c.json(await stateStore.getState());
+});
+
+// Project registry: per-project or per-group webhook secret, GitLab token,
+// trigger phrase and Anthropic key reference. Credentials are never returned.
+app.get("/admin/registry", adminAuth, async (c) => {
+  const entries = await registry.list();
+  return c.json({ entries: entries.map(toRegistrationView) });
+});
+
 app.get(
-  "/admin/enable",
-  bearerAuth({ token: services.environment.get(EnvVar.ADMIN_TOKEN) || "" }),
-  (c) => {
-    services.environment.set(EnvVar.CLAUDE_ENABLED, "false");
-    services.logger.info("Bot enabled via admin endpoint");
-    return c.text("enabled");
+  "/admin/registry/:type{projects|groups}/:target",
+  adminAuth,
+  async (c) => {
+    const target = parseRegistryTarget(
+      c.req.param("type"),
+      c.req.param("target"),
+    );
+    if (!target) {
+      return c.json({ error: "Invalid project ID" }, 400);
+    }
+
+    const registration = await registry.get(target);
+    return registration
+      ? c.json(toRegistrationView(registration))
+      : c.json({ error: "Not registered" }, 404);
+  },
+);
+
+app.put(
+  "/admin/registry/:type{projects|groups}/:target",
+  adminAuth,
+  async (c) => {
+    const target = parseRegistryTarget(
+      c.req.param("type"),
+      c.req.param("target"),
+    );
+    if (!target) {
+      return c.json({ error: "Invalid project ID" }, 400);
+    }
+
+    let settings: ProjectSettings;
+    try {
+      settings = parseProjectSettings(await c.req.json());
+    } catch (error) {
+      return c.json(
+        { error: error instanceof Error ? error.message : "Invalid settings" },
+        400,
+      );
+    }
+
+    const registration = await registry.save(target, settings);
+    services.logger.warn("Project registered via admin endpoint", { target });
+    return c.json(toRegistrationView(registration));
+  },
+);
+
+app.delete(
+  "/admin/registry/:type{projects|groups}/:target",
+  adminAuth,
+  async (c) => {
+    const target = parseRegistryTarget(
+      c.req.param("type"),
+      c.req.param("target"),
+    );
+    if (!target) {
+      return c.json({ error: "Invalid project ID" }, 400);
+    }
+
+    if (!(await registry.remove(target))) {
+      return c.json({ error: "Not registered" }, 404);
+    }
+    services.logger.warn("Project unregistered via admin endpoint", { target });
+    return c.text("deleted");
   },
 );
 
+// Allow and deny rules, replacing ACCESS_RULES once stored
+app.get("/admin/access", adminAuth, async (c) => {
+  return c.json(await accessControl.getRules());
+});
+
+app.put("/admin/access", adminAuth, async (c) => {
+  let rules: AccessRules;
+  try {
+    rules = parseAccessRules(await c.req.json());
+  } catch (error) {
+    return c.json(
+      { error: error instanceof Error ? error.message : "Invalid rules" },
+      400,
+    );
+  }
+
+  await accessControl.setRules(rules);
+  services.logger.warn("Access rules replaced via admin endpoint", { rules });
+  return c.json(await accessControl.getRules());
+});
+
+app.delete("/admin/access", adminAuth, async (c) => {
+  await accessControl.resetRules();
+  services.logger.warn("Access rules reset via admin endpoint");
+  return c.json(await accessControl.getRules());
+});
+
+app.get("/admin/queue", adminAuth, async (c) => {
+  return c.json(await dispatchQueue.getStatus());
+});
+
+app.get("/admin/limiter", adminAuth, (c) => {
+  return c.json(limiter.getStatus());
+});
+
+// Job registry endpoints
+app.get("/jobs", adminAuth, async (c) => {
+  const jobs = await jobStore.list(parseListOptions(c.req.query()));
+  return c.json({ jobs });
+});
+
+app.get("/jobs/:id", adminAuth, async (c) => {
+  const job = await jobStore.get(c.req.param("id"));
+  if (!job) {
+    return c.json({ error: "Job not found" }, 404);
+  }
+  return c.json(job);
+});
+
+app.get("/projects/:id/jobs", adminAuth, async (c) => {
+  const projectId = Number(c.req.param("id"));
+  if (!Number.isInteger(projectId)) {
+    return c.json({ error: "Invalid project ID" }, 400);
+  }
+
+  const jobs = await jobStore.listByProject(
+    projectId,
+    parseListOptions(c.req.query()),
+  );
+  return c.json({ jobs });
+});
+
+// Complete webhook payloads referenced by GITLAB_WEBHOOK_PAYLOAD_REF
+app.get("/payloads/:id", pipelineAuth, async (c) => {
+  const payload = await payloadStore.get(c.req.param("id"));
+  if (!payload) {
+    return c.json({ error: "Payload not found" }, 404);
+  }
+  return c.json(payload);
+});
+
+// Called by the pipeline when it is done with its merge request or issue
+app.delete("/jobs/:id/lock", pipelineAuth, async (c) => {
+  const released = await webhookOrchestrator.releaseJobLock(c.req.param("id"));
+  if (released === null) {
+    return c.json({ error: "Job not found" }, 404);
+  }
+  return c.json({ released });
+});
+
 // Single webhook endpoint for all projects
 app.post("/webhook", async (c) => {
   const gitlabEvent = c.req.header("x-gitlab-event");
@@ -89,25 +391,91 @@ app.post("/webhook", async (c) => {
   services.logger.debug("Webhook received", {
     event: gitlabEvent,
     hasToken: !!gitlabToken,
+    signed: !!c.req.header("webhook-signature"),
   });
 
-  const body = await c.req.json<WebhookPayload>();
+  // Keep the raw body, signatures are computed over it as sent
+  const rawBody = await c.req.text();
+  let body: WebhookPayload;
+  try {
+    body = JSON.parse(rawBody) as WebhookPayload;
+  } catch {
+    return c.json({ error: "Invalid JSON body" }, 400);
+  }
+
+  const credentials: WebhookCredentials = {
+    token: gitlabToken,
+    signature: {
+      id: c.req.header("webhook-id"),
+      timestamp: c.req.header("webhook-timestamp"),
+      signatures: c.req.header("webhook-signature"),
+    },
+    rawBody,
+  };
 
-  // Process webhook using orchestrator
-  const result = await webhookOrchestrator.processWebhook(
-    gitlabEvent,
-    gitlabToken,
+  const authentication = await webhookOrchestrator.authenticate(
+    credentials,
     body,
   );
 
-  // Handle result
+  // GitLab redelivers webhooks on timeouts and on "Resend request"
+  const deliveryKeys = authentication.authorized
+    ? getDeliveryKeys(c.req.header("x-gitlab-event-uuid"), body)
+    : [];
+  const duplicate = await claimDelivery(deliveryKeys);
+  if (duplicate) {
+    return toResponse(c, duplicate);
+  }
+
+  // Process webhook using orchestrator. A delivery that throws releases its
+  // claim, so GitLab's retry is processed instead of dropped as a duplicate
+  let result: WebhookProcessingResult = {
+    status: "error",
+    message: "Failed to process webhook",
+  };
+  try {
+    result = await webhookOrchestrator.processWebhook(
+      gitlabEvent,
+      authentication,
+      body,
+    );
+  } finally {
+    await finishDelivery(deliveryKeys, result);
+  }
+
+  return toResponse(c, result);
+});
+
+// Registry entries are addressed by project ID or by URL-encoded group path
+function parseRegistryTarget(
+  type: string,
+  target: string,
+): RegistryTarget | null {
+  if (type === "groups") {
+    return { type: "group", groupPath: decodeURIComponent(target) };
+  }
+
+  const projectId = Number(target);
+  return Number.isInteger(projectId) ? { type: "project", projectId } : null;
+}
+
+function toResponse(c: Context, result: WebhookProcessingResult) {
   switch (result.status) {
     case "ignored":
     case "disabled":
+    case "forbidden":
+    case "busy":
       return c.text(result.message || result.status);
     case "rate-limited":
-      return c.text(
-        result.message || result.status,
+      if (result.rateLimit) {
+        c.header("Retry-After", String(result.rateLimit.retryAfter));
+      }
+      return c.json(
+        {
+          status: result.status,
+          message: result.message,
+          ...result.rateLimit,
+        },
         (result.errorCode || 429) as any,
       );
     case "started":
@@ -116,6 +484,17 @@ app.post("/webhook", async (c) => {
         pipelineId: result.pipelineId,
         branch: result.branch,
       });
+    case "queued":
+      return c.json({
+        status: result.status,
+        position: result.position,
+      });
+    case "processed":
+      return c.json({
+        status: result.status,
+        pipelineId: result.pipelineId,
+        pipelineStatus: result.message,
+      });
     case "error":
       return result.errorCode
         ? c.text(result.message || "error", result.errorCode as any)
@@ -126,7 +505,68 @@ app.post("/webhook", async (c) => {
     default:
       return c.json({ error: "Unknown status" }, 500);
   }
-});
+}
+
+async function claimDelivery(
+  keys: string[],
+): Promise<WebhookProcessingResult | null> {
+  if (keys.length === 0) {
+    return null;
+  }
+
+  try {
+    const record = await deliveryStore.claim(keys);
+    if (!record) {
+      return null;
+    }
+
+    services.logger.info("Duplicate webhook delivery", {
+      keys,
+      state: record.state,
+    });
+    return record.state === "completed"
+      ? record.result
+      : { status: "ignored", message: "duplicate delivery in progress" };
+  } catch (error) {
+    // Without Redis, process the delivery rather than dropping it
+    services.logger.warn("Failed to check webhook delivery", {
+      error: error instanceof Error ? error.message : error,
+    });
+    return null;
+  }
+}
+
+async function finishDelivery(
+  keys: string[],
+  result: WebhookProcessingResult,
+): Promise<void> {
+  if (keys.length === 0) {
+    return;
+  }
+
+  try {
+    // Failed deliveries may be retried by GitLab
+    if (result.status === "error") {
+      await deliveryStore.release(keys);
+    } else {
+      await deliveryStore.complete(keys, result);
+    }
+  } catch (error) {
+    services.logger.warn("Failed to record webhook delivery", {
+      error: error instanceof Error ? error.message : error,
+    });
+  }
+}
+
+function parseListOptions(query: Record<string, string>): JobListOptions {
+  const limit = Number(query.limit);
+  const offset = Number(query.offset);
+
+  return {
+    limit: limit > 0 ? Math.min(limit, 200) : undefined,
+    offset: offset > 0 ? offset : undefined,
+  };
+}
 
 const port = Number(services.environment.get(EnvVar.PORT)) || 3000;
 services.logger.info(`GitLab Claude Webhook Server starting on port ${port}`);
@@ -0,0 +1,29 @@
+import type {
+  AccessDenial,
+  AccessRules,
+  AccessRulesState,
+  AccessSubject,
+} from "../types";
+
+export interface IAccessControl {
+  /**
+   * Get the allow and deny rules and where they come from
+   */
+  getRules(): Promise<AccessRulesState>;
+
+  /**
+   * Replace the rules for all instances, effective on the next trigger
+   */
+  setRules(rules: AccessRules): Promise<void>;
+
+  /**
+   * Drop the stored rules and go back to ACCESS_RULES
+   */
+  resetRules(): Promise<void>;
+
+  /**
+   * Returns null when the rules allow the trigger, otherwise the rule that
+   * forbids it
+   */
+  check(subject: AccessSubject): Promise<AccessDenial | null>;
+}
@@ -0,0 +1,19 @@
+import type { DeliveryRecord, WebhookProcessingResult } from "../types";
+
+export interface IDeliveryStore {
+  /**
+   * Claim the keys of a webhook delivery. Returns null when the delivery is
+   * new, otherwise the record of the delivery that claimed them first.
+   */
+  claim(keys: string[]): Promise<DeliveryRecord | null>;
+
+  /**
+   * Store the result of a claimed delivery for later duplicates
+   */
+  complete(keys: string[], result: WebhookProcessingResult): Promise<void>;
+
+  /**
+   * Release claimed keys so that a redelivery is processed again
+   */
+  release(keys: string[]): Promise<void>;
+}
@@ -0,0 +1,57 @@
+import type { DispatchQueueStatus, QueuedJob } from "../types";
+
+export interface IDispatchQueue {
+  /**
+   * Add a job to the queue of jobs waiting for a pipeline
+   */
+  enqueue(job: QueuedJob): Promise<void>;
+
+  /**
+   * List queued jobs in dispatch order
+   */
+  list(): Promise<QueuedJob[]>;
+
+  /**
+   * Remove a job from the queue
+   */
+  remove(jobId: string): Promise<void>;
+
+  /**
+   * Check whether another pipeline may start for the project
+   */
+  hasCapacity(projectId: number): Promise<boolean>;
+
+  /**
+   * Count a started pipeline against the concurrency limits
+   */
+  markRunning(jobId: string, projectId: number): Promise<void>;
+
+  /**
+   * Stop counting a finished pipeline against the concurrency limits
+   */
+  markFinished(jobId: string, projectId: number): Promise<void>;
+
+  /**
+   * Take the lock for dispatching, so only one server instance dispatches
+   * at a time. Returns the token to release it with, or null if another
+   * instance holds it.
+   */
+  lockDispatch(): Promise<string | null>;
+
+  /**
+   * Extend the dispatch lock while dispatching. Returns false if it expired
+   * and another instance may be dispatching.
+   */
+  renewDispatchLock(token: string): Promise<boolean>;
+
+  /**
+   * Release the dispatch lock, unless it expired and another instance has
+   * taken it since
+   */
+  unlockDispatch(token: string): Promise<void>;
+
+  /**
+   * Get limits, running pipelines and pending jobs
+   */
+  getStatus(): Promise<DispatchQueueStatus>;
+}
@@ -0,0 +1,9 @@
+import type { IGitLabAdapter } from "../../../src/interfaces";
+
+export interface IGitLabAdapterFactory {
+  /**
+   * Get an adapter authenticated with the given token, or with GITLAB_TOKEN
+   * when no token is given
+   */
+  create(token?: string): IGitLabAdapter;
+}
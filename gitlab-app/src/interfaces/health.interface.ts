@@ -0,0 +1,9 @@
+import type { ReadinessReport } from "../types";
+
+export interface IHealthService {
+  /**
+   * Check configuration, Redis and the GitLab token. The server is ready
+   * only if all checks pass.
+   */
+  checkReadiness(): Promise<ReadinessReport>;
+}
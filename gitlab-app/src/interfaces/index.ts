@@ -1,4 +1,15 @@
-export * from "./discord.interface";
+export * from "./access-control.interface";
+export * from "./delivery-store.interface";
+export * from "./dispatch-queue.interface";
+export * from "./gitlab.interface";
+export * from "./health.interface";
+export * from "./job-store.interface";
 export * from "./limiter.interface";
 export * from "./logger.interface";
+export * from "./metrics.interface";
+export * from "./notifier.interface";
+export * from "./payload-store.interface";
+export * from "./project-registry.interface";
 export * from "./redis.interface";
+export * from "./resource-lock.interface";
+export * from "./state-store.interface";
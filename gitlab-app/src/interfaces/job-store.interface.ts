@@ -0,0 +1,48 @@
+import type { JobListOptions, JobRecord, JobStatus } from "../types";
+
+export interface IJobStore {
+  /**
+   * Create or overwrite a job record
+   */
+  save(job: JobRecord): Promise<void>;
+
+  /**
+   * Get a job by its ID
+   */
+  get(id: string): Promise<JobRecord | null>;
+
+  /**
+   * Find the job that started a given pipeline
+   */
+  findByPipeline(
+    projectId: number,
+    pipelineId: number,
+  ): Promise<JobRecord | null>;
+
+  /**
+   * Find the latest job started for a merge request or issue
+   */
+  findLatestByResource(
+    projectId: number,
+    resourceType: string,
+    resourceId: string,
+  ): Promise<JobRecord | null>;
+
+  /**
+   * List jobs across all projects, newest first
+   */
+  list(options?: JobListOptions): Promise<JobRecord[]>;
+
+  /**
+   * List jobs of a single project, newest first
+   */
+  listByProject(
+    projectId: number,
+    options?: JobListOptions,
+  ): Promise<JobRecord[]>;
+
+  /**
+   * Update the status of a job, setting finishedAt for terminal statuses
+   */
+  updateStatus(id: string, status: JobStatus): Promise<JobRecord | null>;
+}
@@ -1,3 +1,18 @@
+import type {
+  LimiterStatus,
+  RateLimitDenial,
+  RateLimitSubject,
+} from "../types";
+
 export interface ILimiterService {
-  limitByUser(key: string): Promise<boolean>;
+  /**
+   * Count a trigger against all rate-limit policies. Returns null when the
+   * trigger is allowed, otherwise the first policy that denied it.
+   */
+  consume(subject: RateLimitSubject): Promise<RateLimitDenial | null>;
+
+  /**
+   * Report whether rate limiting currently runs on Redis or a fallback
+   */
+  getStatus(): LimiterStatus;
 }
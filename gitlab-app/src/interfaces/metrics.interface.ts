@@ -0,0 +1,33 @@
+import type { RateLimitScope, WebhookProcessingResult } from "../types";
+
+export interface IMetricsService {
+  /**
+   * Count a received webhook by its event type and processing result
+   */
+  recordWebhook(event: string, status: WebhookProcessingResult["status"]): void;
+
+  /**
+   * Record how long a pipeline trigger request to GitLab took
+   */
+  observeTriggerLatency(seconds: number): void;
+
+  /**
+   * Count a failed GitLab API call by the operation that failed
+   */
+  recordGitLabApiError(operation: string): void;
+
+  /**
+   * Count a trigger denied by a rate-limit policy
+   */
+  recordRateLimitHit(projectPath: string, scope: RateLimitScope): void;
+
+  /**
+   * Report whether Redis answered the last readiness or rate-limit check
+   */
+  setRedisHealth(up: boolean): void;
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  render(): string;
+}
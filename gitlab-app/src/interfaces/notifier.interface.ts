@@ -0,0 +1,17 @@
+import type { NotificationEvent } from "../types";
+
+export interface INotifier {
+  /**
+   * Deliver a lifecycle event to the notifier's channel.
+   * Rejects when the delivery fails.
+   */
+  notify(event: NotificationEvent): Promise<void>;
+}
+
+export interface INotificationDispatcher {
+  /**
+   * Fan a lifecycle event out to every notifier routed for its project.
+   * This is fire-and-forget - errors are logged but don't affect the main flow
+   */
+  dispatch(event: NotificationEvent): void;
+}
@@ -0,0 +1,13 @@
+import type { WebhookPayload } from "../types";
+
+export interface IPayloadStore {
+  /**
+   * Store a webhook payload and return its ID
+   */
+  save(payload: WebhookPayload): Promise<string>;
+
+  /**
+   * Get a stored webhook payload by its ID
+   */
+  get(id: string): Promise<WebhookPayload | null>;
+}
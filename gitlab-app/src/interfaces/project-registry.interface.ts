@@ -0,0 +1,36 @@
+import type {
+  ProjectRegistration,
+  ProjectSettings,
+  RegistryTarget,
+} from "../types";
+
+export interface IProjectRegistry {
+  /**
+   * List all registered projects and groups
+   */
+  list(): Promise<ProjectRegistration[]>;
+
+  get(target: RegistryTarget): Promise<ProjectRegistration | null>;
+
+  /**
+   * Register a project or group, replacing its previous settings
+   */
+  save(
+    target: RegistryTarget,
+    settings: ProjectSettings,
+  ): Promise<ProjectRegistration>;
+
+  /**
+   * Returns false if the project or group was not registered
+   */
+  remove(target: RegistryTarget): Promise<boolean>;
+
+  /**
+   * Find the registration that applies to a project: its own, or else the
+   * one of its closest registered group
+   */
+  resolve(
+    projectId: number,
+    projectPath?: string,
+  ): Promise<ProjectRegistration | null>;
+}
@@ -2,7 +2,34 @@ export interface IRedisAdapter {
   zRemRangeByScore(key: string, min: number, max: number): Promise<number>;
   zCard(key: string): Promise<number>;
   zAdd(key: string, score: number, value: string): Promise<number>;
+  zRem(key: string, member: string): Promise<number>;
+  zRange(
+    key: string,
+    start: number,
+    stop: number,
+    reverse?: boolean,
+  ): Promise<string[]>;
+  sAdd(key: string, member: string): Promise<number>;
+  sRem(key: string, member: string): Promise<number>;
+  sMembers(key: string): Promise<string[]>;
   expire(key: string, seconds: number): Promise<boolean>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  setIfAbsent(key: string, value: string, ttlSeconds: number): Promise<boolean>;
+  del(key: string): Promise<number>;
+  // Delete the key only while it still holds the value, atomically
+  delIfEquals(key: string, value: string): Promise<boolean>;
+  // Replace the value only while the key still holds the expected one,
+  // atomically
+  setIfEquals(
+    key: string,
+    expected: string,
+    value: string,
+    ttlSeconds: number,
+  ): Promise<boolean>;
+  // Run a Lua script, which Redis executes atomically
+  eval(script: string, keys: string[], args: string[]): Promise<unknown>;
+  ping(): Promise<string>;
 }
 
 export interface IRedisAdapterFactory {
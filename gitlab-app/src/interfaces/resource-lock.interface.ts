@@ -0,0 +1,32 @@
+import type { ResourceLock } from "../types";
+
+export interface IResourceLock {
+  /**
+   * Take the lock of a merge request or issue. Returns null when the lock was
+   * acquired, otherwise the lock currently holding the resource.
+   */
+  acquire(
+    projectId: number,
+    resource: string,
+    lock: ResourceLock,
+  ): Promise<ResourceLock | null>;
+
+  /**
+   * Get the lock currently holding a resource
+   */
+  get(projectId: number, resource: string): Promise<ResourceLock | null>;
+
+  /**
+   * Replace the details of a lock held by the same job, e.g. its pipeline
+   */
+  update(
+    projectId: number,
+    resource: string,
+    lock: ResourceLock,
+  ): Promise<void>;
+
+  /**
+   * Release the lock if it is held by the given job
+   */
+  release(projectId: number, resource: string, jobId: string): Promise<boolean>;
+}
@@ -0,0 +1,23 @@
+import type { BotState, DisabledScope } from "../types";
+
+export interface IStateStore {
+  /**
+   * Get the global, project and group switches
+   */
+  getState(): Promise<BotState>;
+
+  /**
+   * Resolve the most general scope that disables the bot for a project,
+   * or null when the bot is enabled for it
+   */
+  getDisabledScope(
+    projectId: number,
+    projectPath: string,
+  ): Promise<DisabledScope | null>;
+
+  setGlobalEnabled(enabled: boolean): Promise<void>;
+
+  setProjectEnabled(projectId: number, enabled: boolean): Promise<void>;
+
+  setGroupEnabled(groupPath: string, enabled: boolean): Promise<void>;
+}
@@ -0,0 +1,207 @@
+import type { IEnvironmentService } from "../../../src/interfaces";
+import { EnvVar } from "../../../src/types";
+import type {
+  IAccessControl,
+  ILoggerService,
+  IRedisAdapterFactory,
+} from "../interfaces";
+import type {
+  AccessDenial,
+  AccessRuleSet,
+  AccessRules,
+  AccessRulesState,
+  AccessSubject,
+} from "../types";
+
+const RULES_KEY = "access:rules";
+
+const RULE_LISTS: (keyof AccessRuleSet)[] = ["projects", "groups", "usernames"];
+
+/**
+ * Validate allow and deny rules, e.g. from an admin request, and throw on
+ * anything that is not a list of strings under a known key
+ */
+export function parseAccessRules(value: unknown): AccessRules {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Access rules must be an object");
+  }
+
+  const rules: AccessRules = {};
+  for (const [ruleName, ruleSet] of Object.entries(value)) {
+    if (ruleName !== "allow" && ruleName !== "deny") {
+      throw new Error(`Unknown access rule "${ruleName}"`);
+    }
+    if (!ruleSet || typeof ruleSet !== "object" || Array.isArray(ruleSet)) {
+      throw new Error(`"${ruleName}" must be an object`);
+    }
+
+    const parsed: AccessRuleSet = {};
+    for (const [listName, list] of Object.entries(ruleSet)) {
+      if (!RULE_LISTS.includes(listName as keyof AccessRuleSet)) {
+        throw new Error(`Unknown list "${ruleName}.${listName}"`);
+      }
+      if (
+        !Array.isArray(list) ||
+        list.some((entry) => typeof entry !== "string")
+      ) {
+        throw new Error(`"${ruleName}.${listName}" must be a list of strings`);
+      }
+      parsed[listName as keyof AccessRuleSet] = list;
+    }
+    rules[ruleName] = parsed;
+  }
+
+  return rules;
+}
+
+// "*" matches within one path segment, "**" across segments and "/**" also
+// matches nothing, so "acme/**" covers "acme" and everything below it
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("/**")
+    .map((part) =>
+      part
+        .split("**")
+        .map((segment) =>
+          segment
+            .split("*")
+            .map((literal) => literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+            .join("[^/]*"),
+        )
+        .join(".*"),
+    )
+    .join("(?:/.*)?");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function matchesProject(pattern: string, projectPath: string): boolean {
+  return globToRegExp(pattern).test(projectPath);
+}
+
+// A group matches the namespace of the project or any of its parents
+function matchesGroup(pattern: string, projectPath: string): boolean {
+  const segments = projectPath.split("/").slice(0, -1);
+  const regExp = globToRegExp(pattern);
+  return segments.some((_, index) =>
+    regExp.test(segments.slice(0, index + 1).join("/")),
+  );
+}
+
+function matchesUsername(username: string, candidate: string): boolean {
+  return username.toLowerCase() === candidate.toLowerCase();
+}
+
+export class AccessControlService implements IAccessControl {
+  private environmentRules: AccessRules;
+
+  constructor(
+    private redisFactory: IRedisAdapterFactory,
+    environment: IEnvironmentService,
+    private logger: ILoggerService,
+  ) {
+    this.environmentRules = this.loadEnvironmentRules(environment);
+  }
+
+  async getRules(): Promise<AccessRulesState> {
+    const redis = await this.redisFactory.create();
+    const stored = await redis.get(RULES_KEY);
+
+    // ACCESS_RULES only applies until rules have been stored once
+    return stored !== null
+      ? { rules: parseAccessRules(JSON.parse(stored)), source: "store" }
+      : { rules: this.environmentRules, source: "environment" };
+  }
+
+  async setRules(rules: AccessRules): Promise<void> {
+    const redis = await this.redisFactory.create();
+    await redis.set(RULES_KEY, JSON.stringify(parseAccessRules(rules)));
+  }
+
+  async resetRules(): Promise<void> {
+    const redis = await this.redisFactory.create();
+    await redis.del(RULES_KEY);
+  }
+
+  async check(subject: AccessSubject): Promise<AccessDenial | null> {
+    let rules: AccessRules;
+    try {
+      ({ rules } = await this.getRules());
+    } catch (error) {
+      // Fall back to the environment rules if the store is unavailable
+      this.logger.warn("Failed to read access rules", {
+        error: error instanceof Error ? error.message : error,
+      });
+      rules = this.environmentRules;
+    }
+
+    const { projectPath, username } = subject;
+    const { allow, deny } = rules;
+
+    // Triggers no user can be held accountable for are never allowed
+    if (!username) {
+      return { rule: "allow", kind: "username", target: "unknown user" };
+    }
+
+    const deniedProject = deny?.projects?.find((pattern) =>
+      matchesProject(pattern, projectPath),
+    );
+    if (deniedProject) {
+      return { rule: "deny", kind: "project", target: deniedProject };
+    }
+
+    const deniedGroup = deny?.groups?.find((pattern) =>
+      matchesGroup(pattern, projectPath),
+    );
+    if (deniedGroup) {
+      return { rule: "deny", kind: "group", target: deniedGroup };
+    }
+
+    const deniedUsername = deny?.usernames?.find((candidate) =>
+      matchesUsername(username, candidate),
+    );
+    if (deniedUsername) {
+      return { rule: "deny", kind: "username", target: deniedUsername };
+    }
+
+    // Allowed projects and groups together form one allowlist
+    const allowedProjects = allow?.projects || [];
+    const allowedGroups = allow?.groups || [];
+    if (
+      (allowedProjects.length > 0 || allowedGroups.length > 0) &&
+      !allowedProjects.some((pattern) =>
+        matchesProject(pattern, projectPath),
+      ) &&
+      !allowedGroups.some((pattern) => matchesGroup(pattern, projectPath))
+    ) {
+      return { rule: "allow", kind: "project", target: projectPath };
+    }
+
+    const allowedUsernames = allow?.usernames || [];
+    if (
+      allowedUsernames.length > 0 &&
+      !allowedUsernames.some((candidate) =>
+        matchesUsername(username, candidate),
+      )
+    ) {
+      return { rule: "allow", kind: "username", target: username };
+    }
+
+    return null;
+  }
+
+  private loadEnvironmentRules(environment: IEnvironmentService): AccessRules {
+    const rawRules = environment.get(EnvVar.ACCESS_RULES);
+    if (!rawRules) {
+      return {};
+    }
+
+    try {
+      return parseAccessRules(JSON.parse(rawRules));
+    } catch (error) {
+      this.logger.error("Invalid ACCESS_RULES, ignoring it", {
+        error: error instanceof Error ? error.message : error,
+      });
+      return {};
+    }
+  }
+}
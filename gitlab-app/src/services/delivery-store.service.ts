@@ -0,0 +1,94 @@
+import type { IEnvironmentService } from "../../../src/interfaces";
+import { EnvVar } from "../../../src/types";
+import type { IDeliveryStore, IRedisAdapterFactory } from "../interfaces";
+import type {
+  DeliveryRecord,
+  WebhookPayload,
+  WebhookProcessingResult,
+} from "../types";
+
+// Processed deliveries are remembered for a day by default
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24;
+
+// A claim expires early so a crash while processing does not block retries
+const PROCESSING_TTL_SECONDS = 60 * 5;
+
+/**
+ * Keys of a webhook delivery: its event UUID, and for notes also the note ID
+ * because a resent note event is not guaranteed to keep its UUID
+ */
+export function getDeliveryKeys(
+  eventUuid: string | undefined,
+  payload: WebhookPayload,
+): string[] {
+  const keys: string[] = [];
+
+  if (eventUuid) {
+    keys.push(`delivery:event:${eventUuid}`);
+  }
+  if (payload.object_kind === "note" && payload.object_attributes?.id) {
+    keys.push(
+      `delivery:note:${payload.project.id}:${payload.object_attributes.id}`,
+    );
+  }
+
+  return keys;
+}
+
+export class DeliveryStoreService implements IDeliveryStore {
+  private ttlSeconds: number;
+
+  constructor(
+    private redisFactory: IRedisAdapterFactory,
+    environment: IEnvironmentService,
+  ) {
+    this.ttlSeconds =
+      Number(environment.get(EnvVar.WEBHOOK_IDEMPOTENCY_TTL)) ||
+      DEFAULT_TTL_SECONDS;
+  }
+
+  async claim(keys: string[]): Promise<DeliveryRecord | null> {
+    const redis = await this.redisFactory.create();
+    const processing = JSON.stringify({ state: "processing" });
+    const claimed: string[] = [];
+
+    for (const key of keys) {
+      if (await redis.setIfAbsent(key, processing, PROCESSING_TTL_SECONDS)) {
+        claimed.push(key);
+        continue;
+      }
+
+      // Another delivery got here first, undo the partial claim
+      for (const claimedKey of claimed) {
+        await redis.del(claimedKey);
+      }
+
+      const existing = await redis.get(key);
+      return existing
+        ? (JSON.parse(existing) as DeliveryRecord)
+        : { state: "processing" };
+    }
+
+    return null;
+  }
+
+  async complete(
+    keys: string[],
+    result: WebhookProcessingResult,
+  ): Promise<void> {
+    const redis = await this.redisFactory.create();
+    const record: DeliveryRecord = { state: "completed", result };
+
+    for (const key of keys) {
+      await redis.set(key, JSON.stringify(record), this.ttlSeconds);
+    }
+  }
+
+  async release(keys: string[]): Promise<void> {
+    const redis = await this.redisFactory.create();
+
+    for (const key of keys) {
+      await redis.del(key);
+    }
+  }
+}
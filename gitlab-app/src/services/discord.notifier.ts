@@ -0,0 +1,26 @@
+import type { NotificationEvent } from "../types";
+import { HttpNotifier } from "./http.notifier";
+import { formatNotification } from "./notification.formatter";
+
+export class DiscordNotifier extends HttpNotifier {
+  async notify(event: NotificationEvent): Promise<void> {
+    const summary = formatNotification(event);
+
+    // Create Discord embed
+    const embed = {
+      title: summary.title,
+      url: summary.url,
+      color: summary.color,
+      description: summary.description,
+      fields: summary.fields,
+      footer: {
+        text: "GitLab Claude Webhook",
+        icon_url:
+          "https://about.gitlab.com/images/press/logo/png/gitlab-icon-rgb.png",
+      },
+      timestamp: new Date().toISOString(),
+    };
+
+    await this.post(JSON.stringify({ embeds: [embed] }));
+  }
+}
@@ -0,0 +1,152 @@
+import type { IEnvironmentService } from "../../../src/interfaces";
+import { EnvVar } from "../../../src/types";
+import type { IDispatchQueue, IRedisAdapterFactory } from "../interfaces";
+import type { DispatchQueueStatus, QueuedJob } from "../types";
+
+const QUEUE_KEY = "dispatch:queue";
+const RUNNING_KEY = "dispatch:running";
+const LOCK_KEY = "dispatch:lock";
+
+// Upper bound for priorities, GitLab access levels go up to 60 (admin)
+const MAX_PRIORITY = 100;
+
+// Pipelines that never reported back stop counting after two hours
+const RUNNING_TIMEOUT_SECONDS = 60 * 60 * 2;
+
+// A crashed instance must not block dispatching for long
+const LOCK_TTL_SECONDS = 60;
+
+export class DispatchQueueService implements IDispatchQueue {
+  private maxConcurrent: number | null;
+  private maxConcurrentPerProject: number | null;
+
+  constructor(
+    private redisFactory: IRedisAdapterFactory,
+    environment: IEnvironmentService,
+  ) {
+    this.maxConcurrent =
+      Number(environment.get(EnvVar.MAX_CONCURRENT_PIPELINES)) || null;
+    this.maxConcurrentPerProject =
+      Number(environment.get(EnvVar.MAX_CONCURRENT_PIPELINES_PER_PROJECT)) ||
+      null;
+  }
+
+  async enqueue(job: QueuedJob): Promise<void> {
+    const redis = await this.redisFactory.create();
+    // Order by priority first and by age within the same priority
+    const score =
+      (MAX_PRIORITY - Math.min(job.priority, MAX_PRIORITY)) * 1e13 +
+      new Date(job.enqueuedAt).getTime();
+
+    await redis.set(this.jobKey(job.jobId), JSON.stringify(job));
+    await redis.zAdd(QUEUE_KEY, score, job.jobId);
+  }
+
+  async list(): Promise<QueuedJob[]> {
+    const redis = await this.redisFactory.create();
+    const ids = await redis.zRange(QUEUE_KEY, 0, -1);
+
+    const jobs: QueuedJob[] = [];
+    for (const id of ids) {
+      const value = await redis.get(this.jobKey(id));
+      if (value) {
+        jobs.push(JSON.parse(value) as QueuedJob);
+      } else {
+        await redis.zRem(QUEUE_KEY, id);
+      }
+    }
+    return jobs;
+  }
+
+  async remove(jobId: string): Promise<void> {
+    const redis = await this.redisFactory.create();
+    await redis.zRem(QUEUE_KEY, jobId);
+    await redis.del(this.jobKey(jobId));
+  }
+
+  async hasCapacity(projectId: number): Promise<boolean> {
+    const running = await this.listRunning();
+
+    if (this.maxConcurrent && running.length >= this.maxConcurrent) {
+      return false;
+    }
+
+    const projectRunning = running.filter(
+      (entry) => entry.projectId === projectId,
+    ).length;
+    return (
+      !this.maxConcurrentPerProject ||
+      projectRunning < this.maxConcurrentPerProject
+    );
+  }
+
+  async markRunning(jobId: string, projectId: number): Promise<void> {
+    const redis = await this.redisFactory.create();
+    await redis.zAdd(
+      RUNNING_KEY,
+      Math.floor(Date.now() / 1000),
+      `${projectId}:${jobId}`,
+    );
+  }
+
+  async markFinished(jobId: string, projectId: number): Promise<void> {
+    const redis = await this.redisFactory.create();
+    await redis.zRem(RUNNING_KEY, `${projectId}:${jobId}`);
+  }
+
+  async lockDispatch(): Promise<string | null> {
+    const redis = await this.redisFactory.create();
+    const token = crypto.randomUUID();
+    return (await redis.setIfAbsent(LOCK_KEY, token, LOCK_TTL_SECONDS))
+      ? token
+      : null;
+  }
+
+  async renewDispatchLock(token: string): Promise<boolean> {
+    const redis = await this.redisFactory.create();
+    return await redis.setIfEquals(LOCK_KEY, token, token, LOCK_TTL_SECONDS);
+  }
+
+  async unlockDispatch(token: string): Promise<void> {
+    const redis = await this.redisFactory.create();
+    await redis.delIfEquals(LOCK_KEY, token);
+  }
+
+  async getStatus(): Promise<DispatchQueueStatus> {
+    const [running, jobs] = await Promise.all([
+      this.listRunning(),
+      this.list(),
+    ]);
+
+    const byProject: Record<string, number> = {};
+    for (const { projectId } of running) {
+      byProject[projectId] = (byProject[projectId] || 0) + 1;
+    }
+
+    return {
+      limits: {
+        global: this.maxConcurrent,
+        perProject: this.maxConcurrentPerProject,
+      },
+      running: { total: running.length, byProject },
+      pending: jobs.map(({ variables: _variables, ...job }) => job),
+    };
+  }
+
+  private async listRunning(): Promise<{ projectId: number; jobId: string }[]> {
+    const redis = await this.redisFactory.create();
+    const cutoff = Math.floor(Date.now() / 1000) - RUNNING_TIMEOUT_SECONDS;
+
+    await redis.zRemRangeByScore(RUNNING_KEY, 0, cutoff);
+    const members = await redis.zRange(RUNNING_KEY, 0, -1);
+
+    return members.map((member) => {
+      const [projectId, jobId] = member.split(":");
+      return { projectId: Number(projectId), jobId };
+    });
+  }
+
+  private jobKey(jobId: string): string {
+    return `dispatch:job:${jobId}`;
+  }
+}
@@ -0,0 +1,32 @@
+import type {
+  IGitLabAdapter,
+  IGitLabContextService,
+} from "../../../src/interfaces";
+import { GitLabAdapter } from "../../../src/services";
+import type { IGitLabAdapterFactory } from "../interfaces";
+
+export class GitLabAdapterFactory implements IGitLabAdapterFactory {
+  // Adapters of registered projects, by token
+  private adapters = new Map<string, IGitLabAdapter>();
+
+  constructor(
+    private defaultAdapter: IGitLabAdapter,
+    private gitLabContext: IGitLabContextService,
+  ) {}
+
+  create(token?: string): IGitLabAdapter {
+    if (!token) {
+      return this.defaultAdapter;
+    }
+
+    let adapter = this.adapters.get(token);
+    if (!adapter) {
+      adapter = new GitLabAdapter(
+        { getToken: () => token, resetCache: () => {} },
+        this.gitLabContext,
+      );
+      this.adapters.set(token, adapter);
+    }
+    return adapter;
+  }
+}
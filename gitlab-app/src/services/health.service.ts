@@ -0,0 +1,93 @@
+import type {
+  IEnvironmentService,
+  IGitLabAdapter,
+} from "../../../src/interfaces";
+import { EnvVar } from "../../../src/types";
+import type {
+  IHealthService,
+  IMetricsService,
+  IRedisAdapterFactory,
+} from "../interfaces";
+import type { HealthCheck, ReadinessReport } from "../types";
+
+// Environment variables the server cannot work without
+const REQUIRED_ENV = [EnvVar.WEBHOOK_SECRET, EnvVar.GITLAB_TOKEN];
+
+// Probes must answer before the load balancer gives up on them
+const CHECK_TIMEOUT_MS = 2000;
+
+// Token validation calls the GitLab API, so its result is reused for a while
+const GITLAB_CHECK_TTL_MS = 60 * 1000;
+
+async function runCheck(check: () => Promise<void>): Promise<HealthCheck> {
+  const start = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`No response within ${CHECK_TIMEOUT_MS}ms`)),
+      CHECK_TIMEOUT_MS,
+    );
+  });
+
+  try {
+    await Promise.race([check(), timeout]);
+    return { status: "ok", durationMs: Date.now() - start };
+  } catch (error) {
+    return {
+      status: "fail",
+      message: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - start,
+    };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export class HealthService implements IHealthService {
+  private gitLabCheck: { result: HealthCheck; checkedAt: number } | null = null;
+
+  constructor(
+    private redisFactory: IRedisAdapterFactory,
+    private gitLabAdapter: IGitLabAdapter,
+    private environment: IEnvironmentService,
+    private metrics: IMetricsService,
+  ) {}
+
+  async checkReadiness(): Promise<ReadinessReport> {
+    const [environment, redis, gitlab] = await Promise.all([
+      this.checkEnvironment(),
+      runCheck(async () => {
+        const adapter = await this.redisFactory.create();
+        await adapter.ping();
+      }),
+      this.checkGitLab(),
+    ]);
+    this.metrics.setRedisHealth(redis.status === "ok");
+
+    const checks = { environment, redis, gitlab };
+    const ready = Object.values(checks).every((check) => check.status === "ok");
+    return { status: ready ? "ready" : "not-ready", checks };
+  }
+
+  private async checkEnvironment(): Promise<HealthCheck> {
+    return runCheck(async () => {
+      const missing = REQUIRED_ENV.filter((key) => !this.environment.get(key));
+      if (missing.length > 0) {
+        throw new Error(`Missing ${missing.join(", ")}`);
+      }
+    });
+  }
+
+  private async checkGitLab(): Promise<HealthCheck> {
+    if (
+      this.gitLabCheck &&
+      Date.now() - this.gitLabCheck.checkedAt < GITLAB_CHECK_TTL_MS
+    ) {
+      return this.gitLabCheck.result;
+    }
+
+    const result = await runCheck(() => this.gitLabAdapter.validateToken());
+    this.gitLabCheck = { result, checkedAt: Date.now() };
+    return result;
+  }
+}
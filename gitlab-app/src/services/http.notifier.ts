@@ -0,0 +1,32 @@
+import type { IHttpClient } from "../../../src/interfaces";
+import type { INotifier } from "../interfaces";
+import type { NotificationEvent } from "../types";
+
+/**
+ * Base class for notifiers that deliver JSON to an HTTP endpoint
+ */
+export abstract class HttpNotifier implements INotifier {
+  constructor(
+    protected httpClient: IHttpClient,
+    protected url: string,
+  ) {}
+
+  abstract notify(event: NotificationEvent): Promise<void>;
+
+  protected async post(
+    body: string,
+    headers: Record<string, string> = {},
+  ): Promise<void> {
+    const response = await this.httpClient.fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body,
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Notification request failed: ${response.status} ${response.statusText}`,
+      );
+    }
+  }
+}
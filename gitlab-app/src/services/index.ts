@@ -1,4 +1,18 @@
-export * from "./discord.service";
+export * from "./access-control.service";
+export * from "./delivery-store.service";
+export * from "./discord.notifier";
+export * from "./dispatch-queue.service";
+export * from "./health.service";
+export * from "./job-store.service";
 export * from "./limiter.service";
 export * from "./logger.service";
+export * from "./metrics.service";
+export * from "./notification.dispatcher";
+export * from "./payload-store.service";
+export * from "./project-registry.service";
 export * from "./redis.adapter";
+export * from "./resource-lock.service";
+export * from "./slack.notifier";
+export * from "./state-store.service";
+export * from "./teams.notifier";
+export * from "./webhook.notifier";
@@ -0,0 +1,141 @@
+import type { IJobStore, IRedisAdapterFactory } from "../interfaces";
+import type { JobListOptions, JobRecord, JobStatus } from "../types";
+
+// Jobs are kept for 30 days
+const RETENTION_SECONDS = 60 * 60 * 24 * 30;
+
+const TERMINAL_STATUSES: JobStatus[] = [
+  "success",
+  "failed",
+  "canceled",
+  "skipped",
+];
+
+export class JobStoreService implements IJobStore {
+  constructor(private redisFactory: IRedisAdapterFactory) {}
+
+  async save(job: JobRecord): Promise<void> {
+    const redis = await this.redisFactory.create();
+    const score = Math.floor(new Date(job.createdAt).getTime() / 1000);
+    const cutoff = Math.floor(Date.now() / 1000) - RETENTION_SECONDS;
+
+    await redis.set(
+      this.jobKey(job.id),
+      JSON.stringify(job),
+      RETENTION_SECONDS,
+    );
+    await redis.set(
+      this.pipelineKey(job.projectId, job.pipelineId),
+      job.id,
+      RETENTION_SECONDS,
+    );
+    if (job.resourceId) {
+      await redis.set(
+        this.resourceKey(job.projectId, job.resourceType, job.resourceId),
+        job.id,
+        RETENTION_SECONDS,
+      );
+    }
+
+    for (const indexKey of ["jobs", this.projectKey(job.projectId)]) {
+      await redis.zAdd(indexKey, score, job.id);
+      // Drop index entries whose job records have expired
+      await redis.zRemRangeByScore(indexKey, 0, cutoff);
+    }
+  }
+
+  async get(id: string): Promise<JobRecord | null> {
+    const redis = await this.redisFactory.create();
+    const value = await redis.get(this.jobKey(id));
+    return value ? (JSON.parse(value) as JobRecord) : null;
+  }
+
+  async findByPipeline(
+    projectId: number,
+    pipelineId: number,
+  ): Promise<JobRecord | null> {
+    const redis = await this.redisFactory.create();
+    const id = await redis.get(this.pipelineKey(projectId, pipelineId));
+    return id ? this.get(id) : null;
+  }
+
+  async findLatestByResource(
+    projectId: number,
+    resourceType: string,
+    resourceId: string,
+  ): Promise<JobRecord | null> {
+    const redis = await this.redisFactory.create();
+    const id = await redis.get(
+      this.resourceKey(projectId, resourceType, resourceId),
+    );
+    return id ? this.get(id) : null;
+  }
+
+  async list(options?: JobListOptions): Promise<JobRecord[]> {
+    return this.listFromIndex("jobs", options);
+  }
+
+  async listByProject(
+    projectId: number,
+    options?: JobListOptions,
+  ): Promise<JobRecord[]> {
+    return this.listFromIndex(this.projectKey(projectId), options);
+  }
+
+  async updateStatus(id: string, status: JobStatus): Promise<JobRecord | null> {
+    const job = await this.get(id);
+    if (!job) {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const updated: JobRecord = {
+      ...job,
+      status,
+      updatedAt: now,
+      finishedAt: TERMINAL_STATUSES.includes(status) ? now : job.finishedAt,
+    };
+
+    const redis = await this.redisFactory.create();
+    await redis.set(
+      this.jobKey(id),
+      JSON.stringify(updated),
+      RETENTION_SECONDS,
+    );
+    return updated;
+  }
+
+  private async listFromIndex(
+    indexKey: string,
+    options?: JobListOptions,
+  ): Promise<JobRecord[]> {
+    const limit = options?.limit ?? 50;
+    const offset = options?.offset ?? 0;
+
+    const redis = await this.redisFactory.create();
+    const ids = await redis.zRange(indexKey, offset, offset + limit - 1, true);
+    const jobs = await Promise.all(ids.map((id) => this.get(id)));
+
+    return jobs.filter((job): job is JobRecord => job !== null);
+  }
+
+  private jobKey(id: string): string {
+    return `job:${id}`;
+  }
+
+  private pipelineKey(projectId: number, pipelineId: number): string {
+    return `job:pipeline:${projectId}:${pipelineId}`;
+  }
+
+  private resourceKey(
+    projectId: number,
+    resourceType: string,
+    resourceId: string,
+  ): string {
+    return `job:resource:${projectId}:${resourceType}:${resourceId}`;
+  }
+
+  private projectKey(projectId: number): string {
+    return `jobs:project:${projectId}`;
+  }
+}
@@ -1,44 +1,373 @@
 import type { IEnvironmentService } from "../../../src/interfaces";
 import { EnvVar } from "../../../src/types";
-import type { ILimiterService, IRedisAdapterFactory } from "../interfaces";
+import type {
+  ILimiterService,
+  ILoggerService,
+  IMetricsService,
+  IRedisAdapter,
+  IRedisAdapterFactory,
+} from "../interfaces";
+import type {
+  LimiterStatus,
+  RateLimitDenial,
+  RateLimitFailureMode,
+  RateLimitPolicy,
+  RateLimitScope,
+  RateLimitSubject,
+} from "../types";
+import { MemoryStore } from "./memory.store";
+
+// Policies are checked from the most to the least specific scope
+const SCOPE_ORDER: RateLimitScope[] = [
+  "resource",
+  "user",
+  "project",
+  "group",
+  "global",
+];
+
+const FAILURE_MODES: RateLimitFailureMode[] = ["memory", "open", "closed"];
+
+// Triggers must not hang on an unreachable Redis
+const REDIS_TIMEOUT_MS = 1000;
+
+// Retry hint for triggers denied while Redis is unavailable (fail closed)
+const UNAVAILABLE_RETRY_SECONDS = 60;
+
+type Bucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+// One token bucket a trigger has to take a token from
+type BucketRequest = {
+  policy: RateLimitPolicy;
+  key: string;
+  capacity: number;
+  // Tokens refilled per second
+  rate: number;
+  ttl: number;
+};
+
+// The first bucket without a token, by index into the requests
+type BucketShortage = {
+  index: number;
+  tokens: number;
+};
+
+// Takes a token from every bucket, or from none if one of them is empty.
+// Runs as a single script so concurrent triggers, also from other instances,
+// cannot spend the same token. Buckets are stored as JSON, with Redis' clock
+// shared by all instances. ARGV holds capacity, rate and TTL per key.
+const TAKE_TOKENS_SCRIPT = `
+local time = redis.call("TIME")
+local now = tonumber(time[1]) + tonumber(time[2]) / 1000000
+local tokens = {}
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 3 - 2])
+  local rate = tonumber(ARGV[i * 3 - 1])
+  local current = capacity
+  local stored = redis.call("GET", key)
+  if stored then
+    local bucket = cjson.decode(stored)
+    current = math.min(capacity, bucket.tokens + math.max(0, now - bucket.updatedAt) * rate)
+  end
+  if current < 1 then
+    return {i, tostring(current)}
+  end
+  tokens[i] = current
+end
+for i, key in ipairs(KEYS) do
+  local bucket = cjson.encode({tokens = tokens[i] - 1, updatedAt = now})
+  redis.call("SET", key, bucket, "EX", ARGV[i * 3])
+end
+return false
+`;
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`Redis did not respond within ${ms}ms`)),
+      ms,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
 
 export class LimiterService implements ILimiterService {
-  MAX_REQUESTS: number;
-  WINDOW_SECONDS: number;
+  private policies: RateLimitPolicy[];
+  private allowlist: string[];
+  private failureMode: RateLimitFailureMode;
+  private memoryStore = new MemoryStore();
+  // Tail of the memory store updates, serialized like the Redis script
+  private memoryUpdates: Promise<unknown> = Promise.resolve();
+  private degradedSince: Date | null = null;
 
   constructor(
     private redisFactory: IRedisAdapterFactory,
     environment: IEnvironmentService,
+    private logger: ILoggerService,
+    private metrics: IMetricsService,
   ) {
-    this.MAX_REQUESTS = Number(environment.get(EnvVar.RATE_LIMIT_MAX)) || 3;
-    this.WINDOW_SECONDS =
-      Number(environment.get(EnvVar.RATE_LIMIT_WINDOW)) || 60 * 15;
+    this.policies = this.loadPolicies(environment);
+    const failureMode = environment.get(EnvVar.RATE_LIMIT_FAILURE_MODE);
+    this.failureMode = FAILURE_MODES.includes(
+      failureMode as RateLimitFailureMode,
+    )
+      ? (failureMode as RateLimitFailureMode)
+      : "memory";
+    this.allowlist = (environment.get(EnvVar.RATE_LIMIT_ALLOWLIST) || "")
+      .split(",")
+      .map((username) => username.trim())
+      .filter(Boolean);
+  }
+
+  async consume(subject: RateLimitSubject): Promise<RateLimitDenial | null> {
+    if (this.allowlist.includes(subject.username)) {
+      return null;
+    }
+
+    const denial = await this.consumeOrFallback(subject);
+    if (denial && !denial.unavailable) {
+      this.metrics.recordRateLimitHit(subject.projectPath, denial.scope);
+    }
+    return denial;
+  }
+
+  getStatus(): LimiterStatus {
+    const degraded = this.degradedSince !== null;
+    return {
+      backend: !degraded
+        ? "redis"
+        : this.failureMode === "memory"
+          ? "memory"
+          : "none",
+      degraded,
+      degradedSince: this.degradedSince?.toISOString(),
+      failureMode: this.failureMode,
+    };
   }
 
-  async limitByUser(key: string): Promise<boolean> {
+  private async consumeOrFallback(
+    subject: RateLimitSubject,
+  ): Promise<RateLimitDenial | null> {
     try {
-      const redis = await this.redisFactory.create();
-      const now = Math.floor(Date.now() / 1000);
+      const denial = await withTimeout(
+        this.redisFactory
+          .create()
+          .then((redis) => this.consumeFromRedis(redis, subject)),
+        REDIS_TIMEOUT_MS,
+      );
+      this.metrics.setRedisHealth(true);
+      this.markRecovered();
+      return denial;
+    } catch (error) {
+      this.metrics.setRedisHealth(false);
+      this.markDegraded(error);
+    }
+
+    switch (this.failureMode) {
+      case "open":
+        return null;
+      case "closed":
+        return {
+          scope: "global",
+          limit: 0,
+          window: 0,
+          retryAfter: UNAVAILABLE_RETRY_SECONDS,
+          resetAt: new Date(
+            Date.now() + UNAVAILABLE_RETRY_SECONDS * 1000,
+          ).toISOString(),
+          unavailable: true,
+        };
+      default:
+        return this.consumeFromMemory(subject);
+    }
+  }
+
+  private async consumeFromRedis(
+    redis: IRedisAdapter,
+    subject: RateLimitSubject,
+  ): Promise<RateLimitDenial | null> {
+    const requests = this.bucketRequests(subject);
+    const reply = await redis.eval(
+      TAKE_TOKENS_SCRIPT,
+      requests.map(({ key }) => key),
+      requests.flatMap(({ capacity, rate, ttl }) =>
+        [capacity, rate, ttl].map(String),
+      ),
+    );
 
-      // Remove old entries
-      await redis.zRemRangeByScore(key, 0, now - this.WINDOW_SECONDS);
+    // Lua indexes start at 1
+    return Array.isArray(reply)
+      ? this.toDenial(requests, {
+          index: Number(reply[0]) - 1,
+          tokens: Number(reply[1]),
+        })
+      : null;
+  }
 
-      // Count current entries
-      const count = await redis.zCard(key);
+  private consumeFromMemory(
+    subject: RateLimitSubject,
+  ): Promise<RateLimitDenial | null> {
+    const requests = this.bucketRequests(subject);
+    const update = this.memoryUpdates.then(() => this.takeFromMemory(requests));
+    this.memoryUpdates = update.catch(() => null);
+    return update.then((shortage) =>
+      shortage ? this.toDenial(requests, shortage) : null,
+    );
+  }
 
-      if (count >= this.MAX_REQUESTS) {
-        return false;
+  /**
+   * Same as TAKE_TOKENS_SCRIPT, for the memory store
+   */
+  private async takeFromMemory(
+    requests: BucketRequest[],
+  ): Promise<BucketShortage | null> {
+    const now = Date.now() / 1000;
+
+    const tokens: number[] = [];
+    for (const [index, { key, capacity, rate }] of requests.entries()) {
+      const stored = await this.memoryStore.get(key);
+      const bucket: Bucket = stored
+        ? (JSON.parse(stored) as Bucket)
+        : { tokens: capacity, updatedAt: now };
+      const current = Math.min(
+        capacity,
+        bucket.tokens + Math.max(0, now - bucket.updatedAt) * rate,
+      );
+      if (current < 1) {
+        return { index, tokens: current };
       }
+      tokens.push(current);
+    }
 
-      // Add new entry
-      await redis.zAdd(key, now, `${now}-${Math.random()}`);
-      await redis.expire(key, this.WINDOW_SECONDS);
+    for (const [index, { key, ttl }] of requests.entries()) {
+      await this.memoryStore.set(
+        key,
+        JSON.stringify({ tokens: (tokens[index] ?? 1) - 1, updatedAt: now }),
+        ttl,
+      );
+    }
+    return null;
+  }
 
-      return true;
-    } catch (error) {
-      console.error("Rate limiting error:", error);
-      // If Redis fails, allow the request (fail open)
-      return true;
+  // Token buckets: every policy refills `limit` tokens per `window` up to
+  // `burst` tokens, and a trigger needs one token from each of them
+  private bucketRequests(subject: RateLimitSubject): BucketRequest[] {
+    return this.policies.map((policy) => {
+      const capacity = this.capacity(policy);
+      return {
+        policy,
+        key: this.bucketKey(policy, subject),
+        capacity,
+        rate: policy.limit / policy.window,
+        ttl: Math.ceil((capacity * policy.window) / policy.limit),
+      };
+    });
+  }
+
+  private toDenial(
+    requests: BucketRequest[],
+    { index, tokens }: BucketShortage,
+  ): RateLimitDenial {
+    const request = requests[index] ?? requests[0];
+    if (!request) {
+      throw new Error(`Unknown rate limit bucket ${index}`);
+    }
+
+    const { policy, rate } = request;
+    const retryAfter = Math.max(1, Math.ceil((1 - tokens) / rate));
+    return {
+      scope: policy.scope,
+      limit: policy.limit,
+      window: policy.window,
+      retryAfter,
+      resetAt: new Date(Date.now() + retryAfter * 1000).toISOString(),
+    };
+  }
+
+  private markDegraded(error: unknown): void {
+    if (this.degradedSince) {
+      return;
+    }
+
+    this.degradedSince = new Date();
+    this.logger.error("Redis unavailable for rate limiting", {
+      error: error instanceof Error ? error.message : error,
+      failureMode: this.failureMode,
+    });
+  }
+
+  private markRecovered(): void {
+    if (!this.degradedSince) {
+      return;
+    }
+
+    this.logger.info("Redis available again, rate limiting recovered", {
+      degradedSince: this.degradedSince.toISOString(),
+    });
+    this.degradedSince = null;
+    this.memoryStore.clear();
+  }
+
+  private loadPolicies(environment: IEnvironmentService): RateLimitPolicy[] {
+    const config = environment.get(EnvVar.RATE_LIMIT_POLICIES);
+    let policies: RateLimitPolicy[] = [];
+
+    if (config) {
+      try {
+        policies = (JSON.parse(config) as RateLimitPolicy[]).filter(
+          (policy) =>
+            SCOPE_ORDER.includes(policy.scope) &&
+            policy.limit > 0 &&
+            policy.window > 0,
+        );
+      } catch (error) {
+        this.logger.error("Invalid RATE_LIMIT_POLICIES, using defaults", {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    if (policies.length === 0) {
+      // 3 triggers per user per resource per 15 minutes unless configured
+      policies = [
+        {
+          scope: "resource",
+          limit: Number(environment.get(EnvVar.RATE_LIMIT_MAX)) || 3,
+          window: Number(environment.get(EnvVar.RATE_LIMIT_WINDOW)) || 60 * 15,
+        },
+      ];
+    }
+
+    return policies.sort(
+      (a, b) => SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope),
+    );
+  }
+
+  private capacity(policy: RateLimitPolicy): number {
+    return policy.burst && policy.burst > 0 ? policy.burst : policy.limit;
+  }
+
+  private bucketKey(
+    policy: RateLimitPolicy,
+    subject: RateLimitSubject,
+  ): string {
+    const prefix = `ratelimit:${policy.scope}:${policy.window}`;
+
+    switch (policy.scope) {
+      case "resource":
+        return `${prefix}:${subject.username}:${subject.projectId}:${subject.resourceId}`;
+      case "user":
+        return `${prefix}:${subject.username}`;
+      case "project":
+        return `${prefix}:${subject.projectId}`;
+      case "group":
+        return `${prefix}:${subject.projectPath.split("/").slice(0, -1).join("/")}`;
+      case "global":
+        return prefix;
     }
   }
 }
@@ -0,0 +1,50 @@
+import type { IRedisAdapter } from "../interfaces";
+
+// Expired entries are only swept once the store grows beyond this size
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * In-process key-value store with expiry, standing in for Redis while it is
+ * unavailable. State is lost on restart and not shared between instances.
+ */
+export class MemoryStore implements Pick<IRedisAdapter, "get" | "set"> {
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    this.entries.set(key, {
+      value,
+      expiresAt: ttlSeconds
+        ? Date.now() + ttlSeconds * 1000
+        : Number.POSITIVE_INFINITY,
+    });
+
+    if (this.entries.size > SWEEP_THRESHOLD) {
+      this.sweep();
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,160 @@
+import type { IMetricsService } from "../interfaces";
+import type { RateLimitScope, WebhookProcessingResult } from "../types";
+
+const PREFIX = "gitlab_claude";
+
+// Pipeline trigger requests usually take well below a second
+const TRIGGER_LATENCY_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type Labels = Record<string, string>;
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatHeader(name: string, type: string, help: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+/**
+ * Counter or gauge with one value per label combination
+ */
+class LabeledValues {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    private name: string,
+    private type: "counter" | "gauge",
+    private help: string,
+  ) {}
+
+  add(labels: Labels, amount: number): void {
+    const key = formatLabels(labels);
+    const current = this.values.get(key)?.value ?? 0;
+    this.values.set(key, { labels, value: current + amount });
+  }
+
+  set(labels: Labels, value: number): void {
+    this.values.set(formatLabels(labels), { labels, value });
+  }
+
+  render(): string[] {
+    return [
+      ...formatHeader(this.name, this.type, this.help),
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`,
+      ),
+    ];
+  }
+}
+
+class Histogram {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(
+    private name: string,
+    private help: string,
+    private buckets: number[],
+  ) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        this.counts[index]++;
+      }
+    });
+    this.sum += value;
+    this.count++;
+  }
+
+  render(): string[] {
+    return [
+      ...formatHeader(this.name, "histogram", this.help),
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket{le="${bound}"} ${this.counts[index]}`,
+      ),
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${this.sum}`,
+      `${this.name}_count ${this.count}`,
+    ];
+  }
+}
+
+/**
+ * In-process Prometheus metrics of this server instance
+ */
+export class MetricsService implements IMetricsService {
+  private webhooks = new LabeledValues(
+    `${PREFIX}_webhooks_total`,
+    "counter",
+    "Webhooks received by event type and processing result",
+  );
+  private triggerLatency = new Histogram(
+    `${PREFIX}_pipeline_trigger_duration_seconds`,
+    "Duration of pipeline trigger requests to GitLab",
+    TRIGGER_LATENCY_BUCKETS,
+  );
+  private gitLabApiErrors = new LabeledValues(
+    `${PREFIX}_gitlab_api_errors_total`,
+    "counter",
+    "Failed GitLab API calls by operation",
+  );
+  private rateLimitHits = new LabeledValues(
+    `${PREFIX}_rate_limit_hits_total`,
+    "counter",
+    "Triggers denied by a rate limit by project and policy scope",
+  );
+  private redisUp = new LabeledValues(
+    `${PREFIX}_redis_up`,
+    "gauge",
+    "Whether Redis answered the last readiness or rate-limit check (1) or not (0)",
+  );
+
+  recordWebhook(
+    event: string,
+    status: WebhookProcessingResult["status"],
+  ): void {
+    this.webhooks.add({ event, status }, 1);
+  }
+
+  observeTriggerLatency(seconds: number): void {
+    this.triggerLatency.observe(seconds);
+  }
+
+  recordGitLabApiError(operation: string): void {
+    this.gitLabApiErrors.add({ operation }, 1);
+  }
+
+  recordRateLimitHit(projectPath: string, scope: RateLimitScope): void {
+    this.rateLimitHits.add({ project: projectPath, scope }, 1);
+  }
+
+  setRedisHealth(up: boolean): void {
+    this.redisUp.set({}, up ? 1 : 0);
+  }
+
+  render(): string {
+    return `${[
+      ...this.webhooks.render(),
+      ...this.triggerLatency.render(),
+      ...this.gitLabApiErrors.render(),
+      ...this.rateLimitHits.render(),
+      ...this.redisUp.render(),
+    ].join("\n")}\n`;
+  }
+}
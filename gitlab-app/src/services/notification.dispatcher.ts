@@ -0,0 +1,250 @@
+import type { IEnvironmentService, IHttpClient } from "../../../src/interfaces";
+import { EnvVar } from "../../../src/types";
+import type {
+  ILoggerService,
+  INotificationDispatcher,
+  INotifier,
+} from "../interfaces";
+import type {
+  NotificationConfig,
+  NotificationEvent,
+  NotificationEventType,
+  NotificationRoute,
+  NotifierConfig,
+  NotifierType,
+} from "../types";
+import { DiscordNotifier } from "./discord.notifier";
+import { SlackNotifier } from "./slack.notifier";
+import { TeamsNotifier } from "./teams.notifier";
+import { WebhookNotifier } from "./webhook.notifier";
+
+const NOTIFIER_TYPES: NotifierType[] = ["discord", "slack", "teams", "webhook"];
+
+const EVENT_TYPES: NotificationEventType[] = [
+  "triggered",
+  "forbidden",
+  "rate-limited",
+  "started",
+  "completed",
+  "failed",
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((entry) => typeof entry === "string")
+  );
+}
+
+function isUrl(value: unknown): value is string {
+  if (typeof value !== "string") {
+    return false;
+  }
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export class NotificationDispatcher implements INotificationDispatcher {
+  private config: NotificationConfig;
+
+  constructor(
+    private logger: ILoggerService,
+    private environment: IEnvironmentService,
+    private httpClient: IHttpClient,
+  ) {
+    this.config = this.loadConfig();
+  }
+
+  dispatch(event: NotificationEvent): void {
+    try {
+      for (const target of this.resolveNotifiers(event)) {
+        // Send notification without awaiting (fire-and-forget)
+        this.createNotifier(target)
+          .notify(event)
+          .then(() => {
+            this.logger.debug("Notification sent successfully", {
+              notifier: target.type,
+              event: event.type,
+            });
+          })
+          .catch((error) => {
+            this.logger.error("Error sending notification", {
+              notifier: target.type,
+              event: event.type,
+              error: error instanceof Error ? error.message : error,
+            });
+          });
+      }
+    } catch (error) {
+      // Notifications must never fail the webhook that caused them
+      this.logger.error("Error dispatching notification", {
+        event: event.type,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
+  private resolveNotifiers(event: NotificationEvent): NotifierConfig[] {
+    const routed = (this.config.routes || [])
+      .filter((route) =>
+        route.projects.some(
+          (path) =>
+            event.projectPath === path ||
+            event.projectPath.startsWith(`${path}/`),
+        ),
+      )
+      .flatMap((route) => route.notifiers);
+
+    const notifiers = routed.length > 0 ? routed : this.config.default || [];
+
+    return notifiers.filter(
+      (notifier) => !notifier.events || notifier.events.includes(event.type),
+    );
+  }
+
+  private createNotifier(config: NotifierConfig): INotifier {
+    switch (config.type) {
+      case "discord":
+        return new DiscordNotifier(this.httpClient, config.url);
+      case "slack":
+        return new SlackNotifier(this.httpClient, config.url);
+      case "teams":
+        return new TeamsNotifier(this.httpClient, config.url);
+      case "webhook":
+        return new WebhookNotifier(this.httpClient, config.url, config.secret);
+    }
+  }
+
+  private loadConfig(): NotificationConfig {
+    const rawConfig = this.environment.get(EnvVar.NOTIFICATIONS_CONFIG);
+
+    if (rawConfig) {
+      try {
+        return this.parseConfig(JSON.parse(rawConfig));
+      } catch (error) {
+        this.logger.error("Invalid NOTIFICATIONS_CONFIG, ignoring it", {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+
+    // Keep the previous Discord-only behaviour when no routing is configured
+    const discordWebhookUrl = this.environment.get(EnvVar.DISCORD_WEBHOOK_URL);
+    if (discordWebhookUrl) {
+      return {
+        default: [
+          {
+            type: "discord",
+            url: discordWebhookUrl,
+            events: ["rate-limited", "started", "completed", "failed"],
+          },
+        ],
+      };
+    }
+
+    return {};
+  }
+
+  /**
+   * Validate the routing configuration. Invalid routes and notifiers are
+   * dropped with a warning, so one typo does not disable all notifications.
+   */
+  private parseConfig(value: unknown): NotificationConfig {
+    if (!isObject(value)) {
+      throw new Error("Notification config must be an object");
+    }
+
+    const config: NotificationConfig = {};
+    if (value.default !== undefined) {
+      config.default = this.parseNotifiers(value.default, "default");
+    }
+    if (value.routes !== undefined) {
+      if (Array.isArray(value.routes)) {
+        config.routes = value.routes.flatMap((route, index) => {
+          const parsed = this.parseRoute(route, `routes[${index}]`);
+          return parsed ? [parsed] : [];
+        });
+      } else {
+        this.logger.warn("Ignoring invalid notification routes", {
+          reason: '"routes" must be a list',
+        });
+      }
+    }
+
+    return config;
+  }
+
+  private parseRoute(
+    value: unknown,
+    location: string,
+  ): NotificationRoute | null {
+    if (!isObject(value) || !isStringList(value.projects)) {
+      this.logger.warn("Ignoring invalid notification route", {
+        route: location,
+        reason: '"projects" must be a list of paths',
+      });
+      return null;
+    }
+
+    return {
+      projects: value.projects,
+      notifiers: this.parseNotifiers(value.notifiers, `${location}.notifiers`),
+    };
+  }
+
+  private parseNotifiers(value: unknown, location: string): NotifierConfig[] {
+    if (!Array.isArray(value)) {
+      this.logger.warn("Ignoring invalid notifiers", {
+        notifiers: location,
+        reason: "notifiers must be a list",
+      });
+      return [];
+    }
+
+    return value.flatMap((notifier, index) => {
+      const reason = this.validateNotifier(notifier);
+      if (reason) {
+        this.logger.warn("Ignoring invalid notifier", {
+          notifier: `${location}[${index}]`,
+          reason,
+        });
+        return [];
+      }
+      return [notifier as NotifierConfig];
+    });
+  }
+
+  private validateNotifier(value: unknown): string | null {
+    if (!isObject(value)) {
+      return "notifier must be an object";
+    }
+    if (!NOTIFIER_TYPES.includes(value.type as NotifierType)) {
+      return `unknown notifier type "${value.type}"`;
+    }
+    if (!isUrl(value.url)) {
+      return '"url" must be a valid URL';
+    }
+    if (value.secret !== undefined && typeof value.secret !== "string") {
+      return '"secret" must be a string';
+    }
+    if (
+      value.events !== undefined &&
+      !(
+        isStringList(value.events) &&
+        value.events.every((event) =>
+          EVENT_TYPES.includes(event as NotificationEventType),
+        )
+      )
+    ) {
+      return `"events" must be a list of ${EVENT_TYPES.join(", ")}`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,191 @@
+import type { NotificationEvent, NotificationSummary } from "../types";
+
+/**
+ * Builds the channel-agnostic content of a lifecycle notification
+ */
+export function formatNotification(
+  event: NotificationEvent,
+): NotificationSummary {
+  const projectUrl = `${event.gitlabUrl}/${event.projectPath}`;
+  const pipelineId = "pipelineId" in event ? event.pipelineId : undefined;
+  const pipelineUrl = pipelineId
+    ? `${projectUrl}/-/pipelines/${pipelineId}`
+    : undefined;
+
+  // Determine resource URL
+  const resourceUrl =
+    event.resourceType === "merge_request"
+      ? `${projectUrl}/-/merge_requests/${event.resourceId}`
+      : event.resourceType === "issue"
+        ? `${projectUrl}/-/issues/${event.resourceId}`
+        : undefined;
+
+  const fields: NotificationSummary["fields"] = [
+    {
+      name: "Project",
+      value: event.projectPath,
+      inline: true,
+    },
+    {
+      name: "Triggered By",
+      value: `@${event.authorUsername}`,
+      inline: true,
+    },
+    {
+      name: "Resource",
+      value:
+        event.resourceType === "merge_request"
+          ? `Merge Request !${event.resourceId}`
+          : event.resourceType === "issue"
+            ? `Issue #${event.resourceId}${
+                event.type === "started" && event.issueTitle
+                  ? ` - ${event.issueTitle}`
+                  : ""
+              }`
+            : "Unknown",
+      inline: true,
+    },
+  ];
+
+  if (event.type === "started") {
+    fields.push({
+      name: "Branch",
+      value: `\`${event.branch}\``,
+      inline: true,
+    });
+  }
+
+  if (pipelineId && pipelineUrl) {
+    fields.push({
+      name: "Pipeline ID",
+      value: `[#${pipelineId}](${pipelineUrl})`,
+      inline: true,
+    });
+  }
+
+  if (event.type === "triggered" || event.type === "started") {
+    fields.push({
+      name: "Trigger",
+      value: event.triggerPhrase,
+      inline: true,
+    });
+
+    // Add prompt if present
+    if (event.directPrompt) {
+      fields.push({
+        name: "Prompt",
+        value:
+          event.directPrompt.length > 100
+            ? `${event.directPrompt.substring(0, 100)}...`
+            : event.directPrompt,
+        inline: false,
+      });
+    }
+  }
+
+  if (event.type === "forbidden") {
+    fields.push({
+      name: "Reason",
+      value: event.reason,
+      inline: false,
+    });
+  }
+
+  if (event.type === "rate-limited") {
+    fields.push(
+      {
+        name: "Limit",
+        value: event.limit,
+        inline: true,
+      },
+      {
+        name: "Resets At",
+        value: event.resetAt,
+        inline: true,
+      },
+    );
+  }
+
+  if (event.type === "failed" && event.status) {
+    fields.push({
+      name: "Status",
+      value: event.status,
+      inline: true,
+    });
+  }
+
+  if (
+    (event.type === "completed" || event.type === "failed") &&
+    event.duration
+  ) {
+    fields.push({
+      name: "Duration",
+      value: `${Math.round(event.duration)}s`,
+      inline: true,
+    });
+  }
+
+  if (event.type === "failed" && event.error) {
+    fields.push({
+      name: "Error",
+      value: event.error,
+      inline: false,
+    });
+  }
+
+  // Add resource link if available
+  if (resourceUrl) {
+    fields.push({
+      name: "View Resource",
+      value: `[Open in GitLab](${resourceUrl})`,
+      inline: false,
+    });
+  }
+
+  switch (event.type) {
+    case "triggered":
+      return {
+        title: `👀 ${event.triggerPhrase} Mentioned`,
+        color: 0x1f75cb, // GitLab blue
+        url: resourceUrl,
+        fields,
+      };
+    case "forbidden":
+      return {
+        title: "🚫 Trigger Forbidden",
+        color: 0x6e7781, // Gray
+        url: resourceUrl,
+        description: `A Claude request by @${event.authorUsername} was blocked by the access rules`,
+        fields,
+      };
+    case "rate-limited":
+      return {
+        title: "⚠️ Rate Limit Exceeded",
+        color: 0xff0000, // Red
+        url: resourceUrl,
+        description: `Claude requests have been rate-limited for @${event.authorUsername}`,
+        fields,
+      };
+    case "started":
+      return {
+        title: "🤖 Claude Pipeline Triggered",
+        color: 0xfc6d26, // GitLab orange
+        url: pipelineUrl,
+        fields,
+      };
+    case "completed":
+      return {
+        title: "✅ Claude Pipeline Completed",
+        color: 0x2da44e, // Green
+        url: pipelineUrl,
+        fields,
+      };
+    case "failed":
+      return {
+        title: "❌ Claude Pipeline Failed",
+        color: 0xff0000, // Red
+        url: pipelineUrl ?? resourceUrl,
+        fields,
+      };
+  }
+}
@@ -0,0 +1,31 @@
+import type { IPayloadStore, IRedisAdapterFactory } from "../interfaces";
+import type { WebhookPayload } from "../types";
+
+// Payloads only need to outlive the pipeline that reads them
+const RETENTION_SECONDS = 60 * 60 * 24;
+
+export class PayloadStoreService implements IPayloadStore {
+  constructor(private redisFactory: IRedisAdapterFactory) {}
+
+  async save(payload: WebhookPayload): Promise<string> {
+    const redis = await this.redisFactory.create();
+    const id = crypto.randomUUID();
+
+    await redis.set(
+      this.payloadKey(id),
+      JSON.stringify(payload),
+      RETENTION_SECONDS,
+    );
+    return id;
+  }
+
+  async get(id: string): Promise<WebhookPayload | null> {
+    const redis = await this.redisFactory.create();
+    const value = await redis.get(this.payloadKey(id));
+    return value ? (JSON.parse(value) as WebhookPayload) : null;
+  }
+
+  private payloadKey(id: string): string {
+    return `payload:${id}`;
+  }
+}
@@ -0,0 +1,159 @@
+import type { IProjectRegistry, IRedisAdapterFactory } from "../interfaces";
+import type {
+  ProjectRegistration,
+  ProjectRegistrationView,
+  ProjectSettings,
+  RegistryTarget,
+} from "../types";
+
+const ENTRIES_KEY = "registry:entries";
+
+// CI/CD variable names as accepted by GitLab
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function entryId(target: RegistryTarget): string {
+  return target.type === "project"
+    ? `project:${target.projectId}`
+    : `group:${target.groupPath}`;
+}
+
+function entryKey(target: RegistryTarget): string {
+  return `registry:${entryId(target)}`;
+}
+
+/**
+ * Validate project settings, e.g. from an admin request, and throw on
+ * missing or malformed values
+ */
+export function parseProjectSettings(value: unknown): ProjectSettings {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Project settings must be an object");
+  }
+
+  const {
+    webhookSecret,
+    webhookSigningSecret,
+    gitlabToken,
+    triggerPhrase,
+    anthropicKeyRef,
+  } = value as Record<string, unknown>;
+
+  if (typeof webhookSecret !== "string" || !webhookSecret) {
+    throw new Error('"webhookSecret" is required');
+  }
+  for (const [name, setting] of Object.entries({
+    webhookSigningSecret,
+    gitlabToken,
+    triggerPhrase,
+    anthropicKeyRef,
+  })) {
+    if (setting !== undefined && (typeof setting !== "string" || !setting)) {
+      throw new Error(`"${name}" must be a non-empty string`);
+    }
+  }
+  if (
+    typeof anthropicKeyRef === "string" &&
+    !VARIABLE_NAME_PATTERN.test(anthropicKeyRef)
+  ) {
+    throw new Error('"anthropicKeyRef" must be a CI/CD variable name');
+  }
+
+  return {
+    webhookSecret,
+    webhookSigningSecret: webhookSigningSecret as string | undefined,
+    gitlabToken: gitlabToken as string | undefined,
+    triggerPhrase: triggerPhrase as string | undefined,
+    anthropicKeyRef: anthropicKeyRef as string | undefined,
+  };
+}
+
+/**
+ * Registration without its webhook secrets and GitLab token
+ */
+export function toRegistrationView(
+  registration: ProjectRegistration,
+): ProjectRegistrationView {
+  const {
+    webhookSecret: _,
+    webhookSigningSecret,
+    gitlabToken,
+    ...view
+  } = registration;
+  return {
+    ...view,
+    hasSigningSecret: Boolean(webhookSigningSecret),
+    hasGitlabToken: Boolean(gitlabToken),
+  };
+}
+
+export class ProjectRegistryService implements IProjectRegistry {
+  constructor(private redisFactory: IRedisAdapterFactory) {}
+
+  async list(): Promise<ProjectRegistration[]> {
+    const redis = await this.redisFactory.create();
+    const ids = await redis.sMembers(ENTRIES_KEY);
+    const entries = await Promise.all(
+      ids.map((id) => redis.get(`registry:${id}`)),
+    );
+
+    return entries
+      .filter((entry): entry is string => entry !== null)
+      .map((entry) => JSON.parse(entry) as ProjectRegistration)
+      .sort((a, b) => entryId(a.target).localeCompare(entryId(b.target)));
+  }
+
+  async get(target: RegistryTarget): Promise<ProjectRegistration | null> {
+    const redis = await this.redisFactory.create();
+    const entry = await redis.get(entryKey(target));
+    return entry ? (JSON.parse(entry) as ProjectRegistration) : null;
+  }
+
+  async save(
+    target: RegistryTarget,
+    settings: ProjectSettings,
+  ): Promise<ProjectRegistration> {
+    const redis = await this.redisFactory.create();
+    const existing = await this.get(target);
+    const now = new Date().toISOString();
+
+    const registration: ProjectRegistration = {
+      ...settings,
+      target,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    await redis.set(entryKey(target), JSON.stringify(registration));
+    await redis.sAdd(ENTRIES_KEY, entryId(target));
+    return registration;
+  }
+
+  async remove(target: RegistryTarget): Promise<boolean> {
+    const redis = await this.redisFactory.create();
+    await redis.sRem(ENTRIES_KEY, entryId(target));
+    return (await redis.del(entryKey(target))) > 0;
+  }
+
+  async resolve(
+    projectId: number,
+    projectPath?: string,
+  ): Promise<ProjectRegistration | null> {
+    const project = await this.get({ type: "project", projectId });
+    if (project || !projectPath) {
+      return project;
+    }
+
+    // Closest group first, e.g. "acme/platform" before "acme"
+    const segments = projectPath.split("/").slice(0, -1);
+    for (let depth = segments.length; depth > 0; depth--) {
+      const group = await this.get({
+        type: "group",
+        groupPath: segments.slice(0, depth).join("/"),
+      });
+      if (group) {
+        return group;
+      }
+    }
+
+    return null;
+  }
+}
@@ -1,6 +1,21 @@
 import type { createClient } from "redis";
 import type { IRedisAdapter } from "../interfaces";
 
+const DEL_IF_EQUALS_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+const SET_IF_EQUALS_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  redis.call("SET", KEYS[1], ARGV[2], "EX", ARGV[3])
+  return 1
+end
+return 0
+`;
+
 export class RedisAdapter implements IRedisAdapter {
   constructor(private client: ReturnType<typeof createClient>) {}
 
@@ -8,10 +23,28 @@ export class RedisAdapter implements IRedisAdapter {
     return await this.client.zAdd(key, { score, value });
   }
 
+  async zRem(key: string, member: string): Promise<number> {
+    return await this.client.zRem(key, member);
+  }
+
   async zCard(key: string): Promise<number> {
     return await this.client.zCard(key);
   }
 
+  async zRange(
+    key: string,
+    start: number,
+    stop: number,
+    reverse?: boolean,
+  ): Promise<string[]> {
+    return await this.client.zRange(
+      key,
+      start,
+      stop,
+      reverse ? { REV: true } : undefined,
+    );
+  }
+
   async zRemRangeByScore(
     key: string,
     min: number,
@@ -20,7 +53,72 @@ export class RedisAdapter implements IRedisAdapter {
     return await this.client.zRemRangeByScore(key, min, max);
   }
 
+  async sAdd(key: string, member: string): Promise<number> {
+    return await this.client.sAdd(key, member);
+  }
+
+  async sRem(key: string, member: string): Promise<number> {
+    return await this.client.sRem(key, member);
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return await this.client.sMembers(key);
+  }
+
   async expire(key: string, seconds: number): Promise<boolean> {
     return await this.client.expire(key, seconds);
   }
+
+  async get(key: string): Promise<string | null> {
+    return await this.client.get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    await this.client.set(key, value, ttlSeconds ? { EX: ttlSeconds } : {});
+  }
+
+  async setIfAbsent(
+    key: string,
+    value: string,
+    ttlSeconds: number,
+  ): Promise<boolean> {
+    const reply = await this.client.set(key, value, {
+      NX: true,
+      EX: ttlSeconds,
+    });
+    return reply === "OK";
+  }
+
+  async del(key: string): Promise<number> {
+    return await this.client.del(key);
+  }
+
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    const deleted = await this.client.eval(DEL_IF_EQUALS_SCRIPT, {
+      keys: [key],
+      arguments: [value],
+    });
+    return deleted === 1;
+  }
+
+  async setIfEquals(
+    key: string,
+    expected: string,
+    value: string,
+    ttlSeconds: number,
+  ): Promise<boolean> {
+    const replaced = await this.client.eval(SET_IF_EQUALS_SCRIPT, {
+      keys: [key],
+      arguments: [expected, value, String(ttlSeconds)],
+    });
+    return replaced === 1;
+  }
+
+  async eval(script: string, keys: string[], args: string[]): Promise<unknown> {
+    return await this.client.eval(script, { keys, arguments: args });
+  }
+
+  async ping(): Promise<string> {
+    return await this.client.ping();
+  }
 }
@@ -4,26 +4,52 @@ import { EnvVar } from "../../../src/types";
 import type { IRedisAdapter, IRedisAdapterFactory } from "../interfaces";
 import { RedisAdapter } from "./redis.adapter";
 
-let redisAdapter: IRedisAdapter | null = null;
+// Shared by all callers so an outage does not open a client per request;
+// once connected, the client keeps reconnecting in the background until
+// Redis is back
+let redisAdapter: Promise<IRedisAdapter> | null = null;
+
+// A first connection that fails is given up right away, so callers fall back
+// instead of waiting for Redis, and the next call tries again
+const CONNECT_TIMEOUT_MS = 2000;
+
+const MAX_RECONNECT_DELAY_MS = 500;
 
 export class RedisAdapterFactory implements IRedisAdapterFactory {
   constructor(private environment: IEnvironmentService) {}
 
   async create(): Promise<IRedisAdapter> {
-    if (redisAdapter) {
-      return redisAdapter;
+    if (!redisAdapter) {
+      redisAdapter = this.connect().catch((error) => {
+        redisAdapter = null;
+        throw error;
+      });
     }
+    return redisAdapter;
+  }
 
+  private async connect(): Promise<IRedisAdapter> {
+    let ready = false;
     const client = createClient({
       url: this.environment.get(EnvVar.REDIS_URL) || "redis://localhost:6379",
+      // Fail commands while disconnected instead of queueing them, so callers
+      // can fall back right away
+      disableOfflineQueue: true,
+      socket: {
+        connectTimeout: CONNECT_TIMEOUT_MS,
+        reconnectStrategy: (retries, cause) =>
+          ready ? Math.min(retries * 50, MAX_RECONNECT_DELAY_MS) : cause,
+      },
     });
 
     client.on("error", (err) => console.error("Redis error:", err));
     client.on("connect", () => console.log("Connected to Redis"));
+    client.on("ready", () => {
+      ready = true;
+    });
 
     await client.connect();
 
-    redisAdapter = new RedisAdapter(client);
-    return redisAdapter;
+    return new RedisAdapter(client);
   }
 }
@@ -0,0 +1,97 @@
+import type { IEnvironmentService } from "../../../src/interfaces";
+import { EnvVar } from "../../../src/types";
+import type { IRedisAdapterFactory, IResourceLock } from "../interfaces";
+import type { ResourceLock } from "../types";
+
+// Locks expire on their own in case neither the pipeline nor the Pipeline
+// Hook gets to release them
+const DEFAULT_TTL_SECONDS = 60 * 60 * 2;
+
+// Attempts to take a lock whose holders keep releasing it while we look
+const ACQUIRE_ATTEMPTS = 3;
+
+export class ResourceLockService implements IResourceLock {
+  private ttlSeconds: number;
+
+  constructor(
+    private redisFactory: IRedisAdapterFactory,
+    environment: IEnvironmentService,
+  ) {
+    this.ttlSeconds =
+      Number(environment.get(EnvVar.RESOURCE_LOCK_TTL)) || DEFAULT_TTL_SECONDS;
+  }
+
+  async acquire(
+    projectId: number,
+    resource: string,
+    lock: ResourceLock,
+  ): Promise<ResourceLock | null> {
+    const redis = await this.redisFactory.create();
+    const key = this.lockKey(projectId, resource);
+
+    // The holder may release the lock between taking and reading it, then
+    // the lock is free to take again
+    for (let attempt = 0; attempt < ACQUIRE_ATTEMPTS; attempt++) {
+      if (await redis.setIfAbsent(key, JSON.stringify(lock), this.ttlSeconds)) {
+        return null;
+      }
+
+      const holder = await redis.get(key);
+      if (holder) {
+        return JSON.parse(holder) as ResourceLock;
+      }
+    }
+
+    throw new Error(`Lock of ${resource} changed hands too often to acquire`);
+  }
+
+  async get(projectId: number, resource: string): Promise<ResourceLock | null> {
+    const redis = await this.redisFactory.create();
+    const value = await redis.get(this.lockKey(projectId, resource));
+    return value ? (JSON.parse(value) as ResourceLock) : null;
+  }
+
+  async update(
+    projectId: number,
+    resource: string,
+    lock: ResourceLock,
+  ): Promise<void> {
+    const redis = await this.redisFactory.create();
+    const key = this.lockKey(projectId, resource);
+    const current = await redis.get(key);
+    if (
+      !current ||
+      (JSON.parse(current) as ResourceLock).jobId !== lock.jobId
+    ) {
+      return;
+    }
+
+    // Compare against the value read, so a lock that expired and was taken
+    // by another job in the meantime is left alone
+    await redis.setIfEquals(
+      key,
+      current,
+      JSON.stringify(lock),
+      this.ttlSeconds,
+    );
+  }
+
+  async release(
+    projectId: number,
+    resource: string,
+    jobId: string,
+  ): Promise<boolean> {
+    const redis = await this.redisFactory.create();
+    const key = this.lockKey(projectId, resource);
+    const current = await redis.get(key);
+    if (!current || (JSON.parse(current) as ResourceLock).jobId !== jobId) {
+      return false;
+    }
+
+    return await redis.delIfEquals(key, current);
+  }
+
+  private lockKey(projectId: number, resource: string): string {
+    return `lock:${projectId}:${resource}`;
+  }
+}
@@ -0,0 +1,35 @@
+import type { NotificationEvent } from "../types";
+import { HttpNotifier } from "./http.notifier";
+import { formatNotification } from "./notification.formatter";
+
+/**
+ * Posts to a Slack incoming webhook
+ */
+export class SlackNotifier extends HttpNotifier {
+  async notify(event: NotificationEvent): Promise<void> {
+    const summary = formatNotification(event);
+
+    const attachment = {
+      color: `#${summary.color.toString(16).padStart(6, "0")}`,
+      title: summary.title,
+      title_link: summary.url,
+      text: summary.description,
+      fields: summary.fields.map((field) => ({
+        title: field.name,
+        value: this.toSlackMarkdown(field.value),
+        short: field.inline ?? false,
+      })),
+      footer: "GitLab Claude Webhook",
+      ts: Math.floor(Date.now() / 1000),
+    };
+
+    await this.post(
+      JSON.stringify({ text: summary.title, attachments: [attachment] }),
+    );
+  }
+
+  // Slack uses <url|text> instead of Markdown links
+  private toSlackMarkdown(value: string): string {
+    return value.replace(/\[([^\]]+)\]\(([^)]+)\)/g, "<$2|$1>");
+  }
+}
@@ -0,0 +1,82 @@
+import type { IEnvironmentService } from "../../../src/interfaces";
+import { EnvVar } from "../../../src/types";
+import type { IRedisAdapterFactory, IStateStore } from "../interfaces";
+import type { BotState, DisabledScope } from "../types";
+
+const GLOBAL_KEY = "state:global";
+const DISABLED_PROJECTS_KEY = "state:disabled:projects";
+const DISABLED_GROUPS_KEY = "state:disabled:groups";
+
+export class StateStoreService implements IStateStore {
+  constructor(
+    private redisFactory: IRedisAdapterFactory,
+    private environment: IEnvironmentService,
+  ) {}
+
+  async getState(): Promise<BotState> {
+    const redis = await this.redisFactory.create();
+    const [global, projects, groups] = await Promise.all([
+      redis.get(GLOBAL_KEY),
+      redis.sMembers(DISABLED_PROJECTS_KEY),
+      redis.sMembers(DISABLED_GROUPS_KEY),
+    ]);
+
+    return {
+      // CLAUDE_DISABLED only applies until the switch has been stored once
+      globalDisabled:
+        global !== null
+          ? global === "disabled"
+          : this.environment.get(EnvVar.CLAUDE_DISABLED) === "true",
+      globalSource: global !== null ? "store" : "environment",
+      disabledProjects: projects.map(Number).sort((a, b) => a - b),
+      disabledGroups: groups.sort(),
+    };
+  }
+
+  async getDisabledScope(
+    projectId: number,
+    projectPath: string,
+  ): Promise<DisabledScope | null> {
+    const state = await this.getState();
+
+    if (state.globalDisabled) {
+      return { scope: "global" };
+    }
+
+    const group = state.disabledGroups.find((groupPath) =>
+      projectPath.startsWith(`${groupPath}/`),
+    );
+    if (group) {
+      return { scope: "group", target: group };
+    }
+
+    if (state.disabledProjects.includes(projectId)) {
+      return { scope: "project", target: projectPath };
+    }
+
+    return null;
+  }
+
+  async setGlobalEnabled(enabled: boolean): Promise<void> {
+    const redis = await this.redisFactory.create();
+    await redis.set(GLOBAL_KEY, enabled ? "enabled" : "disabled");
+  }
+
+  async setProjectEnabled(projectId: number, enabled: boolean): Promise<void> {
+    const redis = await this.redisFactory.create();
+    if (enabled) {
+      await redis.sRem(DISABLED_PROJECTS_KEY, String(projectId));
+    } else {
+      await redis.sAdd(DISABLED_PROJECTS_KEY, String(projectId));
+    }
+  }
+
+  async setGroupEnabled(groupPath: string, enabled: boolean): Promise<void> {
+    const redis = await this.redisFactory.create();
+    if (enabled) {
+      await redis.sRem(DISABLED_GROUPS_KEY, groupPath);
+    } else {
+      await redis.sAdd(DISABLED_GROUPS_KEY, groupPath);
+    }
+  }
+}
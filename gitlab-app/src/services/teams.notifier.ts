@@ -0,0 +1,40 @@
+import type { NotificationEvent } from "../types";
+import { HttpNotifier } from "./http.notifier";
+import { formatNotification } from "./notification.formatter";
+
+/**
+ * Posts a MessageCard to a Microsoft Teams incoming webhook
+ */
+export class TeamsNotifier extends HttpNotifier {
+  async notify(event: NotificationEvent): Promise<void> {
+    const summary = formatNotification(event);
+
+    const card = {
+      "@type": "MessageCard",
+      "@context": "https://schema.org/extensions",
+      summary: summary.title,
+      themeColor: summary.color.toString(16).padStart(6, "0"),
+      title: summary.title,
+      text: summary.description,
+      sections: [
+        {
+          facts: summary.fields.map((field) => ({
+            name: field.name,
+            value: field.value,
+          })),
+        },
+      ],
+      potentialAction: summary.url
+        ? [
+            {
+              "@type": "OpenUri",
+              name: "Open in GitLab",
+              targets: [{ os: "default", uri: summary.url }],
+            },
+          ]
+        : [],
+    };
+
+    await this.post(JSON.stringify(card));
+  }
+}
@@ -0,0 +1,42 @@
+import { createHmac } from "node:crypto";
+import type { IHttpClient } from "../../../src/interfaces";
+import type { NotificationEvent } from "../types";
+import { HttpNotifier } from "./http.notifier";
+
+/**
+ * Posts the raw lifecycle event as JSON to a generic endpoint.
+ * When a secret is configured, deliveries carry an HMAC-SHA256 signature of
+ * "<timestamp>.<body>" in the X-Claude-Signature header.
+ */
+export class WebhookNotifier extends HttpNotifier {
+  constructor(
+    httpClient: IHttpClient,
+    url: string,
+    private secret?: string,
+  ) {
+    super(httpClient, url);
+  }
+
+  async notify(event: NotificationEvent): Promise<void> {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const body = JSON.stringify({
+      event: event.type,
+      timestamp: new Date().toISOString(),
+      data: event,
+    });
+
+    const headers: Record<string, string> = {
+      "X-Claude-Event": event.type,
+      "X-Claude-Timestamp": timestamp,
+    };
+
+    if (this.secret) {
+      const signature = createHmac("sha256", this.secret)
+        .update(`${timestamp}.${body}`)
+        .digest("hex");
+      headers["X-Claude-Signature"] = `sha256=${signature}`;
+    }
+
+    await this.post(body, headers);
+  }
+}
@@ -0,0 +1,31 @@
+export type AccessRuleSet = {
+  // Project paths such as "acme/platform/api", glob patterns allowed
+  projects?: string[];
+  // Group paths matching all projects below them, glob patterns allowed
+  groups?: string[];
+  usernames?: string[];
+};
+
+export type AccessRules = {
+  // When set, projects and users must match it in addition to not being denied
+  allow?: AccessRuleSet;
+  deny?: AccessRuleSet;
+};
+
+export type AccessRulesState = {
+  rules: AccessRules;
+  source: "store" | "environment";
+};
+
+export type AccessSubject = {
+  projectPath: string;
+  // Missing when the event names no user, such triggers are always denied
+  username?: string;
+};
+
+export type AccessDenial = {
+  rule: "allow" | "deny";
+  kind: "project" | "group" | "username";
+  // The pattern that denied the trigger, or the subject not on the allowlist
+  target: string;
+};
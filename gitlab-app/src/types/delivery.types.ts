@@ -0,0 +1,5 @@
+import type { WebhookProcessingResult } from "./webhook.types";
+
+export type DeliveryRecord =
+  | { state: "processing" }
+  | { state: "completed"; result: WebhookProcessingResult };
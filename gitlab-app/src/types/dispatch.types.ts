@@ -0,0 +1,44 @@
+import type {
+  TriggerCommandName,
+  TriggerCommandOptions,
+} from "../../../src/validation/command";
+
+export type QueuedJob = {
+  jobId: string;
+  projectId: number;
+  projectPath: string;
+  resourceType: string;
+  resourceId: string;
+  authorUsername: string;
+  // Higher priorities are dispatched first, e.g. the author's access level
+  priority: number;
+  prompt: string;
+  command?: TriggerCommandName;
+  options?: TriggerCommandOptions;
+  triggerLabel?: string;
+  triggerPhrase: string;
+  issueTitle?: string;
+  // Triggering note, acknowledged with an award emoji once the pipeline starts
+  noteId?: number;
+  branch: string;
+  variables: Record<string, string>;
+  enqueuedAt: string;
+};
+
+export type DispatchOutcome = {
+  jobId: string;
+  pipelineId?: number;
+  error?: string;
+};
+
+export type DispatchQueueStatus = {
+  limits: {
+    global: number | null;
+    perProject: number | null;
+  };
+  running: {
+    total: number;
+    byProject: Record<string, number>;
+  };
+  pending: Omit<QueuedJob, "variables">[];
+};
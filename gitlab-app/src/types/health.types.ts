@@ -0,0 +1,14 @@
+export type HealthCheck = {
+  status: "ok" | "fail";
+  message?: string;
+  durationMs: number;
+};
+
+export type ReadinessReport = {
+  status: "ready" | "not-ready";
+  checks: {
+    environment: HealthCheck;
+    redis: HealthCheck;
+    gitlab: HealthCheck;
+  };
+};
@@ -1,3 +1,13 @@
-export * from "./discord.types";
+export * from "./access.types";
+export * from "./delivery.types";
+export * from "./dispatch.types";
+export * from "./health.types";
+export * from "./job.types";
+export * from "./label.types";
+export * from "./lock.types";
 export * from "./logger.types";
+export * from "./notification.types";
+export * from "./rate-limit.types";
+export * from "./registry.types";
+export * from "./state.types";
 export * from "./webhook.types";
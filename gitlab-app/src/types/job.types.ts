@@ -0,0 +1,38 @@
+import type {
+  TriggerCommandName,
+  TriggerCommandOptions,
+} from "../../../src/validation/command";
+
+export type JobStatus =
+  | "pending"
+  | "running"
+  | "success"
+  | "failed"
+  | "canceled"
+  | "skipped";
+
+export type JobRecord = {
+  id: string;
+  projectId: number;
+  projectPath: string;
+  resourceType: string;
+  resourceId: string;
+  authorUsername: string;
+  prompt: string;
+  // Trigger command and options of the request, so it can be retried
+  command?: TriggerCommandName;
+  options?: TriggerCommandOptions;
+  // Label that triggered the job, swapped when the run ends
+  triggerLabel?: string;
+  branch: string;
+  pipelineId: number;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+};
+
+export type JobListOptions = {
+  limit?: number;
+  offset?: number;
+};
@@ -0,0 +1,14 @@
+import type { TriggerCommandName } from "../../../src/validation/command";
+
+export type LabelTrigger = {
+  // Prompt of the run, in place of the text after the trigger phrase
+  prompt?: string;
+  // Command selecting the prompt template of the pipeline, e.g. "fix"
+  command?: TriggerCommandName;
+  // Labels replacing the trigger label when the run succeeded or not
+  doneLabel?: string;
+  failedLabel?: string;
+};
+
+// Trigger settings by label name, e.g. "claude::implement"
+export type LabelTriggers = Record<string, LabelTrigger>;
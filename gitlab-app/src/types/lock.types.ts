@@ -0,0 +1,6 @@
+export type ResourceLock = {
+  jobId: string;
+  authorUsername: string;
+  pipelineId?: number;
+  acquiredAt: string;
+};
@@ -0,0 +1,89 @@
+export type NotificationEventType =
+  | "triggered"
+  | "forbidden"
+  | "rate-limited"
+  | "started"
+  | "completed"
+  | "failed";
+
+type NotificationEventBase = {
+  projectId: number;
+  projectPath: string;
+  authorUsername: string;
+  resourceType: string;
+  resourceId: string;
+  gitlabUrl: string;
+};
+
+export type NotificationEvent =
+  | (NotificationEventBase & {
+      type: "triggered";
+      triggerPhrase: string;
+      directPrompt: string;
+    })
+  | (NotificationEventBase & {
+      type: "forbidden";
+      reason: string;
+    })
+  | (NotificationEventBase & {
+      type: "rate-limited";
+      limit: string;
+      resetAt: string;
+    })
+  | (NotificationEventBase & {
+      type: "started";
+      branch: string;
+      pipelineId: number;
+      triggerPhrase: string;
+      directPrompt: string;
+      issueTitle?: string;
+    })
+  | (NotificationEventBase & {
+      type: "completed";
+      pipelineId: number;
+      duration?: number;
+    })
+  | (NotificationEventBase & {
+      type: "failed";
+      pipelineId?: number;
+      status?: string;
+      duration?: number;
+      error?: string;
+    });
+
+export type NotifierType = "discord" | "slack" | "teams" | "webhook";
+
+export type NotifierConfig = {
+  type: NotifierType;
+  url: string;
+  // Shared secret used to sign generic webhook deliveries
+  secret?: string;
+  // Only deliver these events (all events when omitted)
+  events?: NotificationEventType[];
+};
+
+export type NotificationRoute = {
+  // Project paths or group paths (matching all projects below them)
+  projects: string[];
+  notifiers: NotifierConfig[];
+};
+
+export type NotificationConfig = {
+  // Used for projects that do not match any route
+  default?: NotifierConfig[];
+  routes?: NotificationRoute[];
+};
+
+export type NotificationField = {
+  name: string;
+  value: string;
+  inline?: boolean;
+};
+
+export type NotificationSummary = {
+  title: string;
+  color: number;
+  url?: string;
+  description?: string;
+  fields: NotificationField[];
+};
@@ -0,0 +1,42 @@
+export type RateLimitScope =
+  | "resource"
+  | "user"
+  | "project"
+  | "group"
+  | "global";
+
+export type RateLimitPolicy = {
+  scope: RateLimitScope;
+  // Sustained rate of `limit` triggers per `window` seconds
+  limit: number;
+  window: number;
+  // Triggers allowed at once before the sustained rate applies, defaults to limit
+  burst?: number;
+};
+
+export type RateLimitSubject = {
+  username: string;
+  projectId: number;
+  projectPath: string;
+  resourceId: string;
+};
+
+export type RateLimitDenial = {
+  scope: RateLimitScope;
+  limit: number;
+  window: number;
+  retryAfter: number;
+  resetAt: string;
+  // Set when triggers are denied because Redis is unavailable
+  unavailable?: boolean;
+};
+
+// What the limiter does while Redis is unavailable
+export type RateLimitFailureMode = "memory" | "open" | "closed";
+
+export type LimiterStatus = {
+  backend: "redis" | "memory" | "none";
+  degraded: boolean;
+  degradedSince?: string;
+  failureMode: RateLimitFailureMode;
+};
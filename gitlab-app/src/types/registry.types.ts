@@ -0,0 +1,31 @@
+export type RegistryTarget =
+  | { type: "project"; projectId: number }
+  | { type: "group"; groupPath: string };
+
+export type ProjectSettings = {
+  // Secret token of the project's or group's webhook
+  webhookSecret: string;
+  // Signing token of the webhook, requires signed deliveries when set
+  webhookSigningSecret?: string;
+  // Used instead of GITLAB_TOKEN for API calls on the project
+  gitlabToken?: string;
+  // Used instead of TRIGGER_PHRASE
+  triggerPhrase?: string;
+  // Name of the CI/CD variable holding the Anthropic API key
+  anthropicKeyRef?: string;
+};
+
+export type ProjectRegistration = ProjectSettings & {
+  target: RegistryTarget;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Registration as returned by the admin endpoints, without credentials
+export type ProjectRegistrationView = Omit<
+  ProjectRegistration,
+  "webhookSecret" | "webhookSigningSecret" | "gitlabToken"
+> & {
+  hasSigningSecret: boolean;
+  hasGitlabToken: boolean;
+};
@@ -0,0 +1,11 @@
+export type DisabledScope = {
+  scope: "global" | "group" | "project";
+  target?: string;
+};
+
+export type BotState = {
+  globalDisabled: boolean;
+  globalSource: "store" | "environment";
+  disabledProjects: number[];
+  disabledGroups: string[];
+};
@@ -1,3 +1,23 @@
+import type { RateLimitDenial } from "./rate-limit.types";
+import type { ProjectRegistration } from "./registry.types";
+import type { DisabledScope } from "./state.types";
+
+export type WebhookChange<T> = {
+  previous: T;
+  current: T;
+};
+
+export type WebhookLabel = {
+  id: number;
+  title: string;
+};
+
+export type WebhookUser = {
+  id: number;
+  username: string;
+  name: string;
+};
+
 export type WebhookPayload = {
   object_kind: string;
   event_type?: string;
@@ -33,10 +53,43 @@ export type WebhookPayload = {
     line_code?: string;
     commit_id?: string;
     noteable_id?: number;
+    discussion_id?: string;
     system: boolean;
     st_diff?: any;
     url?: string;
     action?: string;
+    // Merge Request Hook / Issue Hook attributes
+    iid?: number;
+    title?: string;
+    description?: string;
+    state?: string;
+    source_branch?: string;
+    target_branch?: string;
+    // Pipeline Hook attributes
+    ref?: string;
+    status?: string;
+    detailed_status?: string;
+    duration?: number;
+    finished_at?: string;
+    variables?: Array<{ key: string; value: string }>;
+    // Emoji Hook attributes
+    name?: string;
+    awardable_type?: string;
+    awardable_id?: number;
+  };
+  changes?: {
+    title?: WebhookChange<string>;
+    description?: WebhookChange<string | null>;
+    labels?: WebhookChange<WebhookLabel[]>;
+    reviewers?: WebhookChange<WebhookUser[]>;
+    assignees?: WebhookChange<WebhookUser[]>;
+  };
+  // Emoji Hook: the note an emoji was awarded to
+  note?: {
+    id: number;
+    note: string;
+    noteable_type: string;
+    discussion_id?: string;
   };
   repository?: {
     name: string;
@@ -106,3 +159,48 @@ export type WebhookPayload = {
     visibility: string;
   };
 };
+
+// Standard Webhooks headers, sent when the webhook has a signing token
+export type WebhookSignature = {
+  id?: string;
+  timestamp?: string;
+  signatures?: string;
+};
+
+export type WebhookCredentials = {
+  // X-Gitlab-Token header
+  token?: string;
+  signature: WebhookSignature;
+  // Request body as received, which the signature is computed over
+  rawBody: string;
+};
+
+// Outcome of checking a delivery's token and signature
+export type WebhookAuthentication =
+  | { authorized: true; registration: ProjectRegistration | null }
+  | {
+      authorized: false;
+      reason: string;
+      // 401 for bad credentials, 503 while the registry is unavailable
+      errorCode: number;
+    };
+
+export interface WebhookProcessingResult {
+  status:
+    | "ignored"
+    | "disabled"
+    | "forbidden"
+    | "rate-limited"
+    | "busy"
+    | "queued"
+    | "started"
+    | "processed"
+    | "error";
+  message?: string;
+  scope?: DisabledScope["scope"];
+  pipelineId?: number;
+  branch?: string;
+  position?: number;
+  rateLimit?: RateLimitDenial;
+  errorCode?: number;
+}
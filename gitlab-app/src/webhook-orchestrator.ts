@@ -1,3 +1,4 @@
+import { createHash, timingSafeEqual } from "node:crypto";
 import type {
   IEnvironmentService,
   IGitLabAdapter,
@@ -5,15 +6,249 @@ import type {
   ILoggerService,
 } from "../../src/interfaces";
 import { EnvVar } from "../../src/types";
-import type { IDiscordService, ILimiterService } from "./interfaces";
-import type { WebhookPayload } from "./types";
-
-export interface WebhookProcessingResult {
-  status: "ignored" | "disabled" | "rate-limited" | "started" | "error";
-  message?: string;
-  pipelineId?: number;
-  branch?: string;
-  errorCode?: number;
+import { hasBotMarker, withBotMarker } from "../../src/validation/bot-note";
+import {
+  containsTriggerPhrase,
+  formatCommandHelp,
+  isControlCommand,
+  isTriggerCommand,
+  parseTriggerCommand,
+  type TriggerCommand,
+  type TriggerCommandName,
+} from "../../src/validation/command";
+import { checkContainsTrigger } from "../../src/validation/trigger";
+import type {
+  IAccessControl,
+  IDispatchQueue,
+  IGitLabAdapterFactory,
+  IJobStore,
+  ILimiterService,
+  IMetricsService,
+  INotificationDispatcher,
+  IPayloadStore,
+  IProjectRegistry,
+  IResourceLock,
+  IStateStore,
+} from "./interfaces";
+import { verifyWebhookSignature } from "./services/signature.verifier";
+import type {
+  AccessDenial,
+  DisabledScope,
+  DispatchOutcome,
+  JobRecord,
+  JobStatus,
+  LabelTrigger,
+  LabelTriggers,
+  ProjectRegistration,
+  QueuedJob,
+  RateLimitDenial,
+  RateLimitScope,
+  ResourceLock,
+  WebhookAuthentication,
+  WebhookCredentials,
+  WebhookPayload,
+  WebhookProcessingResult,
+  WebhookUser,
+} from "./types";
+
+const SUPPORTED_EVENTS = [
+  "Note Hook",
+  "Merge Request Hook",
+  "Issue Hook",
+  "Emoji Hook",
+];
+
+// Events reported by name in metrics, anything else counts as "other"
+const METRIC_EVENTS = [...SUPPORTED_EVENTS, "Pipeline Hook"];
+
+// Pipeline statuses after which a Claude run will not report back anymore
+const TERMINAL_PIPELINE_STATUSES = ["success", "failed", "canceled", "skipped"];
+
+// Header of the tracking comment created by the prepare phase
+const TRACKING_COMMENT_HEADER = "🤖 Claude is working on this...";
+
+// Usernames of project and group access token bots and of service accounts
+const BOT_USERNAME_PATTERNS = [
+  /^(project|group)_\d+_bot/i,
+  /^service_account_/i,
+];
+
+// Commands of runs triggered by adding the bot user as reviewer or assignee
+const ASSIGNMENT_COMMANDS: Array<
+  ["reviewers" | "assignees", TriggerCommandName]
+> = [
+  ["reviewers", "review"],
+  ["assignees", "fix"],
+];
+
+// Access level required to trigger a run by reacting to a note
+const DEVELOPER_ACCESS_LEVEL = 30;
+
+// Access level required to control the runs of other users
+const MAINTAINER_ACCESS_LEVEL = 40;
+
+// Award emoji added to a triggering note once its pipeline started
+const TRIGGER_ACKNOWLEDGEMENT_EMOJI = "eyes";
+
+// Merge request and issue actions that may introduce a trigger phrase
+const TRIGGERING_ACTIONS = ["open", "update", "reopen"];
+
+// Default replay window of signed webhooks, in seconds
+const DEFAULT_SIGNATURE_TOLERANCE = 300;
+
+// GitLab API access for a project, with the token of its registration if any
+type GitLabConnection = {
+  adapter: IGitLabAdapter;
+  token?: string;
+};
+
+type TriggerSource = {
+  text: string;
+  mrIid?: number;
+  issueIid?: number;
+  // Set when the trigger is a note, so replies go to its thread
+  noteId?: number;
+  discussionId?: string;
+  issueTitle?: string;
+  sourceBranch?: string;
+  // Set for label, assignment and reaction triggers, which resolve their
+  // command along with the source
+  command?: TriggerCommand;
+  triggerLabel?: string;
+  // Set for reaction triggers, which the pipeline handles as a comment on
+  // the awarded note instead of the emoji event
+  payload?: WebhookPayload;
+};
+
+type ReplyTarget = Pick<
+  TriggerSource,
+  "mrIid" | "issueIid" | "noteId" | "discussionId"
+>;
+
+// Merge request or issue a control command such as stop or retry acts on
+type ControlTarget = {
+  gitLab: GitLabConnection;
+  projectId: number;
+  webUrl: string;
+  resourceType: string;
+  resourceId: string;
+  user: WebhookPayload["user"];
+  replyTarget: ReplyTarget;
+};
+
+const RATE_LIMIT_SCOPE_LABELS: Record<RateLimitScope, string> = {
+  resource: "per-user per-resource",
+  user: "per-user",
+  project: "per-project",
+  group: "per-group",
+  global: "global",
+};
+
+function formatWindow(seconds: number): string {
+  const [value, unit] =
+    seconds % 3600 === 0
+      ? [seconds / 3600, "hour"]
+      : seconds % 60 === 0
+        ? [seconds / 60, "minute"]
+        : [seconds, "second"];
+  return `${value} ${unit}${value === 1 ? "" : "s"}`;
+}
+
+// e.g. "per-project rate limit (10 per 1 hour)"
+function describeRateLimit(denial: RateLimitDenial): string {
+  if (denial.unavailable) {
+    return "rate limiter (unavailable)";
+  }
+  return `${RATE_LIMIT_SCOPE_LABELS[denial.scope]} rate limit (${denial.limit} per ${formatWindow(denial.window)})`;
+}
+
+// e.g. 'denied by group rule "acme/legacy/**"'
+function describeAccessDenial(denial: AccessDenial): string {
+  return denial.rule === "deny"
+    ? `denied by ${denial.kind} rule "${denial.target}"`
+    : `${denial.kind} ${denial.target} is not allowlisted`;
+}
+
+// Explanation for the author of a forbidden trigger, without the rule itself
+function explainAccessDenial(denial: AccessDenial): string {
+  if (denial.kind === "username") {
+    return denial.rule === "deny"
+      ? "you are on the denylist for Claude"
+      : "you do not have permission to use Claude";
+  }
+  return denial.rule === "deny"
+    ? `this ${denial.kind} is on the denylist for Claude`
+    : "Claude is not enabled for this project";
+}
+
+// Compare digests so neither the content nor the length of the secret leaks
+function secretsEqual(actual: string, expected: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(actual), digest(expected));
+}
+
+/**
+ * Validate LABEL_TRIGGERS, dropping settings of the wrong type. Control
+ * commands cannot be triggered by a label, and labels with neither a prompt
+ * nor a command are dropped, they would start a run without instructions.
+ */
+function parseLabelTriggers(
+  value: unknown,
+  logger: ILoggerService,
+): LabelTriggers {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("Label triggers must be an object keyed by label");
+  }
+
+  const text = (setting: unknown) =>
+    typeof setting === "string" && setting ? setting : undefined;
+  const triggers: LabelTriggers = {};
+
+  for (const [label, setting] of Object.entries(value)) {
+    const { prompt, command, doneLabel, failedLabel } = (setting ??
+      {}) as Record<string, unknown>;
+    const name = text(command);
+    const trigger: LabelTrigger = {
+      prompt: text(prompt),
+      command:
+        name && isTriggerCommand(name) && !isControlCommand(name)
+          ? name
+          : undefined,
+      doneLabel: text(doneLabel),
+      failedLabel: text(failedLabel),
+    };
+
+    if (!trigger.prompt && !trigger.command) {
+      logger.warn("Ignoring label trigger without a prompt or command", {
+        label,
+      });
+      continue;
+    }
+    triggers[label] = trigger;
+  }
+
+  return triggers;
+}
+
+function describeResource(resourceType: string): string {
+  return resourceType === "merge_request" ? "merge request" : "issue";
+}
+
+function lockResource(resourceType: string, resourceId: string): string {
+  return `${resourceType}:${resourceId}`;
+}
+
+function toJobStatus(pipelineStatus: string): JobStatus {
+  switch (pipelineStatus) {
+    case "running":
+    case "success":
+    case "failed":
+    case "canceled":
+    case "skipped":
+      return pipelineStatus;
+    default:
+      return "pending";
+  }
 }
 
 export class WebhookOrchestrator {
@@ -21,26 +256,147 @@ export class WebhookOrchestrator {
     private environment: IEnvironmentService,
     private logger: ILoggerService,
     private httpClient: IHttpClient,
-    private gitLabAdapter: IGitLabAdapter,
-    private discord: IDiscordService,
+    private gitLabAdapters: IGitLabAdapterFactory,
+    private notifications: INotificationDispatcher,
     private limiter: ILimiterService,
+    private jobStore: IJobStore,
+    private stateStore: IStateStore,
+    private payloadStore: IPayloadStore,
+    private resourceLock: IResourceLock,
+    private dispatchQueue: IDispatchQueue,
+    private accessControl: IAccessControl,
+    private registry: IProjectRegistry,
+    private metrics: IMetricsService,
   ) {}
 
+  // Tail of the dispatch runs of this instance, so they never overlap
+  private dispatching: Promise<DispatchOutcome[]> = Promise.resolve([]);
+
+  // LABEL_TRIGGERS, parsed on first use
+  private labelTriggers: LabelTriggers | null = null;
+
+  /**
+   * Check the X-Gitlab-Token header, and the signature of signed webhooks,
+   * against the secrets of the registered project or group, or the global
+   * secrets for unregistered projects. Deliveries are rejected while the
+   * registry cannot be read, since the project may be registered.
+   */
+  async authenticate(
+    { token, signature, rawBody }: WebhookCredentials,
+    payload: WebhookPayload,
+  ): Promise<WebhookAuthentication> {
+    let registration: ProjectRegistration | null = null;
+    const projectId = payload.project?.id;
+    if (projectId) {
+      try {
+        registration = await this.registry.resolve(
+          projectId,
+          payload.project?.path_with_namespace,
+        );
+      } catch (error) {
+        this.logger.error("Failed to look up project registration", {
+          error: error instanceof Error ? error.message : error,
+          projectId,
+        });
+        return {
+          authorized: false,
+          reason: "registry unavailable",
+          errorCode: 503,
+        };
+      }
+    }
+
+    const secret = registration
+      ? registration.webhookSecret
+      : this.environment.get(EnvVar.WEBHOOK_SECRET);
+    const signingSecret = registration
+      ? registration.webhookSigningSecret
+      : this.environment.get(EnvVar.WEBHOOK_SIGNING_SECRET);
+
+    if (!secret || !token || !secretsEqual(token, secret)) {
+      return { authorized: false, reason: "invalid token", errorCode: 401 };
+    }
+
+    if (signingSecret) {
+      const tolerance =
+        Number(this.environment.get(EnvVar.WEBHOOK_SIGNATURE_TOLERANCE)) ||
+        DEFAULT_SIGNATURE_TOLERANCE;
+      const reason = verifyWebhookSignature(
+        signingSecret,
+        signature,
+        rawBody,
+        tolerance,
+      );
+      if (reason) {
+        return { authorized: false, reason, errorCode: 401 };
+      }
+    }
+
+    return { authorized: true, registration };
+  }
+
+  /**
+   * Release the resource lock of a job, called by its pipeline when done.
+   * Returns null for unknown jobs.
+   */
+  async releaseJobLock(jobId: string): Promise<boolean | null> {
+    const job = await this.jobStore.get(jobId);
+    return job ? this.releaseResourceLock(job) : null;
+  }
+
+  /**
+   * Handle a delivery, authenticated with authenticate()
+   */
   async processWebhook(
     gitlabEvent: string | undefined,
-    gitlabToken: string | undefined,
+    authentication: WebhookAuthentication,
     payload: WebhookPayload,
   ): Promise<WebhookProcessingResult> {
-    // Verify webhook secret
-    const webhookSecret = this.environment.get(EnvVar.WEBHOOK_SECRET);
-    if (gitlabToken !== webhookSecret) {
-      this.logger.warn("Webhook unauthorized - invalid token");
-      return { status: "error", message: "unauthorized", errorCode: 401 };
+    let status: WebhookProcessingResult["status"] = "error";
+    try {
+      const result = await this.handleWebhook(
+        gitlabEvent,
+        authentication,
+        payload,
+      );
+      status = result.status;
+      return result;
+    } finally {
+      this.metrics.recordWebhook(
+        gitlabEvent && METRIC_EVENTS.includes(gitlabEvent)
+          ? gitlabEvent
+          : "other",
+        status,
+      );
     }
+  }
 
-    // Only handle Note Hook events
-    if (gitlabEvent !== "Note Hook") {
-      this.logger.debug("Ignoring non-Note Hook event", {
+  private async handleWebhook(
+    gitlabEvent: string | undefined,
+    authentication: WebhookAuthentication,
+    payload: WebhookPayload,
+  ): Promise<WebhookProcessingResult> {
+    if (!authentication.authorized) {
+      const { reason, errorCode } = authentication;
+      this.logger.warn(`Webhook unauthorized - ${reason}`, {
+        projectId: payload.project?.id,
+      });
+      return {
+        status: "error",
+        message: errorCode === 503 ? "service unavailable" : "unauthorized",
+        errorCode,
+      };
+    }
+    const { registration } = authentication;
+
+    // Pipeline events close the loop on runs started by this server
+    if (gitlabEvent === "Pipeline Hook") {
+      return this.processPipelineEvent(payload);
+    }
+
+    // Only handle events that can carry a trigger phrase
+    if (!gitlabEvent || !SUPPORTED_EVENTS.includes(gitlabEvent)) {
+      this.logger.debug("Ignoring unsupported event", {
         event: gitlabEvent,
       });
       return { status: "ignored", message: "ignored" };
@@ -51,186 +407,1371 @@ export class WebhookOrchestrator {
       payload: this.logger.maskSensitive(payload),
     });
 
-    // Check if bot is disabled
-    if (this.environment.get(EnvVar.CLAUDE_DISABLED) === "true") {
-      this.logger.warn("Bot is disabled, skipping trigger");
-      return { status: "disabled", message: "disabled" };
-    }
-
     // Extract webhook data
-    const note = payload.object_attributes?.note || "";
     const projectId = payload.project?.id;
     const projectPath = payload.project?.path_with_namespace;
-    const mrIid = payload.merge_request?.iid;
-    const issueIid = payload.issue?.iid;
-    const issueTitle = payload.issue?.title;
     const authorUsername = payload.user?.username;
 
-    // Get trigger phrase from environment or use default
+    // Get trigger phrase from the registration, environment or use default
     const triggerPhrase =
-      this.environment.get(EnvVar.TRIGGER_PHRASE) || "@claude";
-    const triggerRegex = new RegExp(
-      `${triggerPhrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`,
-      "i",
-    );
+      registration?.triggerPhrase ||
+      this.environment.get(EnvVar.TRIGGER_PHRASE) ||
+      "@claude";
+    const gitLab = this.connect(registration);
 
-    // Check for trigger phrase mention
-    if (!triggerRegex.test(note)) {
-      this.logger.debug(`No ${triggerPhrase} mention found in note`);
+    const source =
+      gitlabEvent === "Emoji Hook"
+        ? await this.extractReactionSource(gitLab, payload, triggerPhrase)
+        : this.extractTriggerSource(gitlabEvent, payload, triggerPhrase);
+    if (!source) {
       return { status: "ignored", message: "skipped" };
     }
 
-    // Rate limit check
-    const resourceId = mrIid || issueIid || "general";
-    const key = `${authorUsername}:${projectId}:${resourceId}`;
+    const { text: note, mrIid, issueIid, issueTitle, sourceBranch } = source;
+    const replyTarget: ReplyTarget = {
+      mrIid,
+      issueIid,
+      noteId: source.noteId,
+      discussionId: source.discussionId,
+    };
+
+    // Never trigger on the bot's own comments or on other bots
+    const loopReason = this.detectBotLoop(authorUsername, note);
+    if (loopReason) {
+      this.logger.warn("Loop prevention: ignoring trigger", {
+        reason: loopReason,
+        event: gitlabEvent,
+        author: authorUsername,
+        project: projectPath,
+        resourceId: mrIid || issueIid,
+      });
+      return { status: "ignored", message: "loop-prevention" };
+    }
+
+    const notificationBase = {
+      projectId,
+      projectPath,
+      authorUsername,
+      resourceType: mrIid ? "merge_request" : issueIid ? "issue" : "unknown",
+      resourceId: String(mrIid || issueIid || ""),
+      gitlabUrl:
+        this.environment.get(EnvVar.GITLAB_URL) || "https://gitlab.com",
+    };
+
+    // Allow and deny rules apply before anything else counts the trigger
+    const accessDenial = await this.accessControl.check({
+      projectPath,
+      username: authorUsername,
+    });
+    if (accessDenial) {
+      const reason = describeAccessDenial(accessDenial);
+      this.logger.warn("Trigger forbidden by access rules", {
+        author: authorUsername,
+        project: projectPath,
+        rule: accessDenial.rule,
+        kind: accessDenial.kind,
+        target: accessDenial.target,
+      });
+
+      // Send forbidden notification (fire-and-forget)
+      this.notifications.dispatch({
+        ...notificationBase,
+        type: "forbidden",
+        reason,
+      });
+
+      await this.replyToResource(
+        gitLab,
+        projectId,
+        replyTarget,
+        `@${authorUsername} ${explainAccessDenial(accessDenial)}, so your request was not started.`,
+      );
+
+      return { status: "forbidden", message: `forbidden: ${reason}` };
+    }
+
+    // A reaction runs Claude on a note someone else may have written, so the
+    // awarder needs write access to the project
+    if (gitlabEvent === "Emoji Hook") {
+      const accessLevel = await this.getAccessLevel(
+        gitLab,
+        projectId,
+        payload.user?.id,
+      );
+      if (accessLevel < DEVELOPER_ACCESS_LEVEL) {
+        this.logger.warn("Reaction trigger forbidden", {
+          author: authorUsername,
+          project: projectPath,
+          accessLevel,
+        });
+
+        this.notifications.dispatch({
+          ...notificationBase,
+          type: "forbidden",
+          reason: "reaction without developer access",
+        });
+
+        await this.replyToResource(
+          gitLab,
+          projectId,
+          replyTarget,
+          `@${authorUsername} only developers of this project can start Claude with a reaction, so your request was not started.`,
+        );
+
+        return {
+          status: "forbidden",
+          message: "forbidden: reaction without developer access",
+        };
+      }
+    }
+
+    let command: TriggerCommand = source.command ??
+      parseTriggerCommand(note, triggerPhrase) ?? {
+        options: {},
+        prompt: "",
+      };
+
+    // Help, stop and status are answered right away, even while disabled,
+    // and do not count towards the rate limit
+    const controlTarget: ControlTarget | null =
+      mrIid || issueIid
+        ? {
+            gitLab,
+            projectId,
+            webUrl: payload.project.web_url,
+            resourceType: mrIid ? "merge_request" : "issue",
+            resourceId: String(mrIid || issueIid),
+            user: payload.user,
+            replyTarget,
+          }
+        : null;
+    if (command.command === "help") {
+      await this.replyToResource(
+        gitLab,
+        projectId,
+        replyTarget,
+        `@${authorUsername} ${formatCommandHelp(triggerPhrase)}`,
+      );
+      return { status: "processed", message: "help" };
+    }
+    if (command.command === "stop" || command.command === "status") {
+      if (!controlTarget) {
+        return { status: "ignored", message: "skipped" };
+      }
+      return command.command === "stop"
+        ? await this.stopRun(controlTarget)
+        : await this.reportStatus(controlTarget);
+    }
+
+    // Check if bot is disabled globally, for the group or for the project
+    const disabledScope = await this.resolveDisabledScope(
+      projectId,
+      projectPath,
+    );
+    if (disabledScope) {
+      const message =
+        disabledScope.scope === "global"
+          ? "disabled globally"
+          : `disabled for ${disabledScope.scope} ${disabledScope.target}`;
+      this.logger.warn("Bot is disabled, skipping trigger", {
+        project: projectPath,
+        scope: disabledScope.scope,
+        target: disabledScope.target,
+      });
+      await this.replyToResource(
+        gitLab,
+        projectId,
+        replyTarget,
+        `@${authorUsername} Claude is ${message}, so your request was not started.`,
+      );
+      return { status: "disabled", message, scope: disabledScope.scope };
+    }
+
+    // Retry repeats the last request on the resource, prompt and options
+    if (command.command === "retry") {
+      if (!controlTarget) {
+        return { status: "ignored", message: "skipped" };
+      }
+      const retry = await this.resolveRetry(controlTarget);
+      if ("status" in retry) {
+        return retry;
+      }
+      command = retry;
+    }
+
+    // Only one Claude run may work on a merge request or issue at a time
+    const jobId = crypto.randomUUID();
+    const resourceType = mrIid ? "merge_request" : "issue";
+    const resource = lockResource(resourceType, String(mrIid || issueIid));
+    const lock: ResourceLock = {
+      jobId,
+      authorUsername,
+      acquiredAt: new Date().toISOString(),
+    };
+
+    const locksResource = !!(mrIid || issueIid);
+    const holder = locksResource
+      ? await this.acquireResourceLock(projectId, resource, lock)
+      : null;
+    if (holder) {
+      this.logger.warn("Resource is locked by another Claude run", {
+        project: projectPath,
+        resource,
+        holderJobId: holder.jobId,
+        holderPipelineId: holder.pipelineId,
+      });
+
+      const pipelineLink = holder.pipelineId
+        ? ` in [pipeline #${holder.pipelineId}](${payload.project.web_url}/-/pipelines/${holder.pipelineId})`
+        : "";
+      await this.replyToResource(
+        gitLab,
+        projectId,
+        replyTarget,
+        `@${authorUsername} Claude is already working on this ${describeResource(resourceType)}${pipelineLink}. Your request was not started, please try again once that run has finished.`,
+      );
+
+      return {
+        status: "busy",
+        message: "busy",
+        pipelineId: holder.pipelineId,
+      };
+    }
+
+    // Rate limit check, after the lock so triggers on a busy merge request or
+    // issue do not use up tokens
+    const rateLimit = await this.limiter.consume({
+      username: authorUsername,
+      projectId,
+      projectPath,
+      resourceId: String(mrIid || issueIid || "general"),
+    });
+
+    if (rateLimit) {
+      const limit = describeRateLimit(rateLimit);
+      this.logger.warn("Rate limit exceeded", {
+        author: authorUsername,
+        project: projectPath,
+        scope: rateLimit.scope,
+        limit,
+        resetAt: rateLimit.resetAt,
+      });
+
+      // Send rate limit notification (fire-and-forget)
+      this.notifications.dispatch({
+        ...notificationBase,
+        type: "rate-limited",
+        limit,
+        resetAt: rateLimit.resetAt,
+      });
+
+      if (locksResource) {
+        await this.releaseResourceLock({
+          id: jobId,
+          projectId,
+          resourceType,
+          resourceId: String(mrIid || issueIid),
+        });
+      }
+
+      const reason = rateLimit.unavailable
+        ? "rate limiting for Claude is temporarily unavailable"
+        : `the ${limit} for Claude was reached`;
+      await this.replyToResource(
+        gitLab,
+        projectId,
+        replyTarget,
+        `@${authorUsername} ${reason}, so your request was not started. Please try again after ${rateLimit.resetAt.replace("T", " ").slice(0, 16)} UTC.`,
+      );
+
+      return {
+        status: "rate-limited",
+        message: rateLimit.unavailable
+          ? "Rate limiter unavailable"
+          : `${rateLimit.scope} rate limit exceeded`,
+        rateLimit,
+        errorCode: 429,
+      };
+    }
+
+    const directPrompt = command.prompt;
+
+    this.logger.info(`${triggerPhrase} triggered`, {
+      project: projectPath,
+      author: authorUsername,
+      resourceType: mrIid ? "merge_request" : issueIid ? "issue" : "unknown",
+      resourceId: mrIid || issueIid,
+      command: command.command,
+    });
+
+    this.notifications.dispatch({
+      ...notificationBase,
+      type: "triggered",
+      triggerPhrase,
+      directPrompt,
+    });
+
+    const jobBase = {
+      jobId,
+      projectId,
+      projectPath,
+      authorUsername,
+      resourceType,
+      resourceId: String(mrIid || issueIid || ""),
+    };
+
+    try {
+      // Determine branch ref
+      const ref = await this.determineBranchRef(gitLab, projectId, {
+        mrIid,
+        issueIid,
+        issueTitle,
+        sourceBranch,
+      });
+
+      // Keep the complete payload on the server, CI/CD variables are limited
+      // to 10KB so only a minimal payload is passed inline as a fallback
+      const runPayload = source.payload ?? payload;
+      const payloadRef = await this.storePayload(runPayload);
+      const callbackUrl = this.getCallbackUrl();
+
+      const minimalPayload = {
+        object_kind: runPayload.object_kind,
+        project: runPayload.project,
+        user: runPayload.user,
+        object_attributes: runPayload.object_attributes
+          ? {
+              note: runPayload.object_attributes.note,
+              noteable_type: runPayload.object_attributes.noteable_type,
+              iid: runPayload.object_attributes.iid,
+              title: runPayload.object_attributes.title,
+              description: runPayload.object_attributes.description,
+              state: runPayload.object_attributes.state,
+              action: runPayload.object_attributes.action,
+            }
+          : undefined,
+        merge_request: runPayload.merge_request
+          ? {
+              iid: runPayload.merge_request.iid,
+              title: runPayload.merge_request.title,
+              state: runPayload.merge_request.state,
+            }
+          : undefined,
+        issue: runPayload.issue
+          ? {
+              iid: runPayload.issue.iid,
+              title: runPayload.issue.title,
+              state: runPayload.issue.state,
+            }
+          : undefined,
+      };
+
+      // Pipeline variables
+      const variables = {
+        CLAUDE_TRIGGER: "true",
+        CLAUDE_JOB_ID: jobId,
+        CLAUDE_AUTHOR: authorUsername,
+        CLAUDE_RESOURCE_TYPE: resourceType,
+        CLAUDE_RESOURCE_ID: jobBase.resourceId,
+        CLAUDE_NOTE: note,
+        CLAUDE_PROJECT_PATH: projectPath,
+        CLAUDE_BRANCH: ref,
+        TRIGGER_PHRASE: triggerPhrase,
+        DIRECT_PROMPT: directPrompt,
+        ...(command.command ? { CLAUDE_COMMAND: command.command } : {}),
+        ...(command.options.model
+          ? { CLAUDE_MODEL: command.options.model }
+          : {}),
+        ...(command.options.maxTurns
+          ? { MAX_TURNS: String(command.options.maxTurns) }
+          : {}),
+        ...(source.triggerLabel
+          ? { CLAUDE_TRIGGER_LABEL: source.triggerLabel }
+          : {}),
+        GITLAB_WEBHOOK_PAYLOAD: JSON.stringify(minimalPayload),
+        ...(payloadRef ? { GITLAB_WEBHOOK_PAYLOAD_REF: payloadRef } : {}),
+        ...(callbackUrl
+          ? { CLAUDE_LOCK_RELEASE_URL: `${callbackUrl}/jobs/${jobId}/lock` }
+          : {}),
+        ...(registration?.anthropicKeyRef
+          ? { CLAUDE_ANTHROPIC_KEY_REF: registration.anthropicKeyRef }
+          : {}),
+      };
+
+      const job: QueuedJob = {
+        ...jobBase,
+        priority: await this.getAccessLevel(
+          gitLab,
+          projectId,
+          payload.user?.id,
+        ),
+        prompt: directPrompt,
+        command: command.command,
+        options: command.options,
+        triggerLabel: source.triggerLabel,
+        triggerPhrase,
+        issueTitle: issueTitle || undefined,
+        noteId: source.noteId,
+        branch: ref,
+        variables,
+        enqueuedAt: new Date().toISOString(),
+      };
+
+      return await this.dispatch(job, gitLab, replyTarget);
+    } catch (error) {
+      await this.abandonJob(jobBase, error);
+      return {
+        status: "error",
+        message: "Failed to trigger pipeline",
+        errorCode: 500,
+      };
+    }
+  }
+
+  /**
+   * Start queued jobs while the concurrency limits allow it. Runs are
+   * serialized within this instance and across instances through Redis.
+   */
+  dispatchQueued(): Promise<DispatchOutcome[]> {
+    const run = this.dispatching.then(
+      () => this.drainQueue(),
+      () => this.drainQueue(),
+    );
+    this.dispatching = run.catch(() => []);
+    return run;
+  }
+
+  /**
+   * Queue a job and start it right away if there is capacity, otherwise let
+   * the author know it is waiting
+   */
+  private async dispatch(
+    job: QueuedJob,
+    gitLab: GitLabConnection,
+    replyTarget: ReplyTarget,
+  ): Promise<WebhookProcessingResult> {
+    let result: WebhookProcessingResult = {
+      status: "queued",
+      message: "queued",
+    };
+    try {
+      await this.dispatchQueue.enqueue(job);
+    } catch (error) {
+      // Without the queue, start the pipeline rather than dropping the trigger
+      this.logger.warn("Failed to queue job, starting pipeline right away", {
+        error: error instanceof Error ? error.message : error,
+        jobId: job.jobId,
+      });
+      const pipelineId = await this.startJob(job);
+      return { status: "started", pipelineId, branch: job.branch };
+    }
+
+    try {
+      const outcome = (await this.dispatchQueued()).find(
+        ({ jobId }) => jobId === job.jobId,
+      );
+      if (outcome?.pipelineId) {
+        return {
+          status: "started",
+          pipelineId: outcome.pipelineId,
+          branch: job.branch,
+        };
+      }
+      if (outcome?.error) {
+        return {
+          status: "error",
+          message: "Failed to trigger pipeline",
+          errorCode: 500,
+        };
+      }
+
+      const queue = await this.dispatchQueue.list();
+      const position = queue.findIndex(({ jobId }) => jobId === job.jobId) + 1;
+      this.logger.info("Job queued until a pipeline slot is free", {
+        project: job.projectPath,
+        jobId: job.jobId,
+        position,
+      });
+      result = { ...result, position };
+    } catch (error) {
+      // The job stays queued and is picked up by the next dispatch run
+      this.logger.warn("Failed to dispatch queued jobs", {
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+
+    const place = result.position ? ` at position ${result.position}` : "";
+    await this.replyToResource(
+      gitLab,
+      job.projectId,
+      replyTarget,
+      `@${job.authorUsername} Claude is busy with other runs, so your request is queued${place}. It starts as soon as a pipeline slot is free.`,
+    );
+    return result;
+  }
+
+  private async drainQueue(): Promise<DispatchOutcome[]> {
+    const lockToken = await this.dispatchQueue.lockDispatch();
+    if (!lockToken) {
+      this.logger.debug("Another instance is dispatching queued jobs");
+      return [];
+    }
+
+    const outcomes: DispatchOutcome[] = [];
+    try {
+      for (const job of await this.dispatchQueue.list()) {
+        if (!(await this.dispatchQueue.hasCapacity(job.projectId))) {
+          continue;
+        }
+
+        // Starting pipelines can take a while on a slow GitLab API, keep the
+        // lock alive and stop if another instance has taken it over
+        if (!(await this.dispatchQueue.renewDispatchLock(lockToken))) {
+          this.logger.warn("Lost the dispatch lock, stopping dispatch");
+          break;
+        }
+
+        await this.dispatchQueue.remove(job.jobId);
+        try {
+          const pipelineId = await this.startJob(job);
+          outcomes.push({ jobId: job.jobId, pipelineId });
+        } catch (error) {
+          await this.abandonJob(job, error);
+          outcomes.push({
+            jobId: job.jobId,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      await this.dispatchQueue.unlockDispatch(lockToken);
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Trigger the pipeline of a job and register it
+   */
+  private async startJob(job: QueuedJob): Promise<number> {
+    const { projectId, branch: ref, variables } = job;
+    const gitLab = this.connect(
+      await this.resolveRegistration(projectId, job.projectPath),
+    );
+
+    this.logger.info("Triggering pipeline", {
+      projectId,
+      ref,
+      variables: this.logger.maskSensitive(variables),
+    });
+
+    const pipelineId = await this.triggerPipeline(
+      gitLab,
+      projectId,
+      ref,
+      variables,
+    );
+
+    this.logger.info("Pipeline triggered successfully", {
+      pipelineId,
+      projectId,
+      ref,
+    });
+
+    // Acknowledge the triggering note before the pipeline posts anything
+    if (job.noteId) {
+      await this.awardTriggerNote(gitLab, job, job.noteId);
+    }
+
+    await this.dispatchQueue
+      .markRunning(job.jobId, projectId)
+      .catch((error) => {
+        this.logger.warn("Failed to count running pipeline", {
+          error: error instanceof Error ? error.message : error,
+          pipelineId,
+        });
+      });
+
+    const resource = lockResource(job.resourceType, job.resourceId);
+    await this.resourceLock
+      .update(projectId, resource, {
+        jobId: job.jobId,
+        authorUsername: job.authorUsername,
+        pipelineId,
+        acquiredAt: job.enqueuedAt,
+      })
+      .catch((error) => {
+        this.logger.warn("Failed to update resource lock", {
+          error: error instanceof Error ? error.message : error,
+          resource,
+          pipelineId,
+        });
+      });
+
+    // Register the job so its progress can be tracked
+    const now = new Date().toISOString();
+    await this.jobStore
+      .save({
+        id: job.jobId,
+        projectId,
+        projectPath: job.projectPath,
+        resourceType: job.resourceType,
+        resourceId: job.resourceId,
+        authorUsername: job.authorUsername,
+        prompt: job.prompt,
+        command: job.command,
+        options: job.options,
+        triggerLabel: job.triggerLabel,
+        branch: ref,
+        pipelineId,
+        status: "pending",
+        createdAt: now,
+        updatedAt: now,
+      })
+      .catch((error) => {
+        this.logger.warn("Failed to register job", {
+          error: error instanceof Error ? error.message : error,
+          pipelineId,
+        });
+      });
+
+    // Send pipeline notification (fire-and-forget)
+    this.notifications.dispatch({
+      ...this.jobNotificationBase(job),
+      type: "started",
+      branch: ref,
+      pipelineId,
+      triggerPhrase: job.triggerPhrase,
+      directPrompt: job.prompt,
+      issueTitle: job.issueTitle,
+    });
+
+    // Cancel old pipelines if configured
+    if (this.environment.get(EnvVar.CANCEL_OLD_PIPELINES) === "true") {
+      await this.cancelOldPipelines(gitLab, projectId, pipelineId, ref);
+    }
+
+    return pipelineId;
+  }
+
+  /**
+   * Clean up after a job whose pipeline could not be triggered
+   */
+  private async abandonJob(
+    job: Pick<
+      QueuedJob,
+      | "jobId"
+      | "projectId"
+      | "projectPath"
+      | "authorUsername"
+      | "resourceType"
+      | "resourceId"
+    >,
+    error: unknown,
+  ): Promise<void> {
+    this.logger.error("Failed to trigger pipeline", {
+      error: error instanceof Error ? error.message : error,
+      projectId: job.projectId,
+      jobId: job.jobId,
+    });
+
+    // Let the next trigger try again
+    const resource = lockResource(job.resourceType, job.resourceId);
+    await this.resourceLock
+      .release(job.projectId, resource, job.jobId)
+      .catch((lockError) => {
+        this.logger.warn("Failed to release resource lock", {
+          error: lockError instanceof Error ? lockError.message : lockError,
+          resource,
+        });
+      });
+
+    this.notifications.dispatch({
+      ...this.jobNotificationBase(job),
+      type: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  private jobNotificationBase(
+    job: Pick<
+      QueuedJob,
+      | "projectId"
+      | "projectPath"
+      | "authorUsername"
+      | "resourceType"
+      | "resourceId"
+    >,
+  ) {
+    return {
+      projectId: job.projectId,
+      projectPath: job.projectPath,
+      authorUsername: job.authorUsername,
+      resourceType: job.resourceType,
+      resourceId: job.resourceId,
+      gitlabUrl:
+        this.environment.get(EnvVar.GITLAB_URL) || "https://gitlab.com",
+    };
+  }
+
+  /**
+   * Access level of the author in the project, used as queue priority so
+   * maintainers go first. Non-members get 0.
+   */
+  private async getAccessLevel(
+    gitLab: GitLabConnection,
+    projectId: number,
+    userId: number | undefined,
+  ): Promise<number> {
+    if (!userId) {
+      return 0;
+    }
+
+    try {
+      const member = await gitLab.adapter.getMember({
+        projectId: String(projectId),
+        userId,
+      });
+      return member.access_level;
+    } catch (error) {
+      this.logger.debug("Could not resolve access level of author", {
+        error: error instanceof Error ? error.message : error,
+        projectId,
+        userId,
+      });
+      return 0;
+    }
+  }
+
+  private async processPipelineEvent(
+    payload: WebhookPayload,
+  ): Promise<WebhookProcessingResult> {
+    const pipelineId = payload.object_attributes?.id;
+    const status = payload.object_attributes?.status;
+
+    if (!status) {
+      return { status: "ignored", message: "ignored" };
+    }
+
+    const job = await this.resolvePipelineJob(payload);
+    if (!job) {
+      this.logger.debug("Ignoring pipeline not started by Claude", {
+        pipelineId,
+      });
+      return { status: "ignored", message: "ignored" };
+    }
+
+    await this.jobStore
+      .updateStatus(job.id, toJobStatus(status))
+      .catch((error) => {
+        this.logger.warn("Failed to update job status", {
+          error: error instanceof Error ? error.message : error,
+          jobId: job.id,
+          status,
+        });
+      });
+
+    if (!TERMINAL_PIPELINE_STATUSES.includes(status)) {
+      this.logger.debug("Claude pipeline status updated", {
+        jobId: job.id,
+        pipelineId,
+        status,
+      });
+      return { status: "processed", message: status, pipelineId };
+    }
+
+    this.logger.info("Claude pipeline finished", {
+      project: job.projectPath,
+      jobId: job.id,
+      pipelineId: job.pipelineId,
+      status,
+      resourceType: job.resourceType,
+      resourceId: job.resourceId,
+    });
+
+    // Send completion notification (fire-and-forget)
+    const completionBase = {
+      projectId: job.projectId,
+      projectPath: job.projectPath,
+      authorUsername: job.authorUsername,
+      resourceType: job.resourceType,
+      resourceId: job.resourceId,
+      gitlabUrl:
+        this.environment.get(EnvVar.GITLAB_URL) || "https://gitlab.com",
+      pipelineId: job.pipelineId,
+      duration: payload.object_attributes?.duration,
+    };
+    this.notifications.dispatch(
+      status === "success"
+        ? { ...completionBase, type: "completed" }
+        : { ...completionBase, type: "failed", status },
+    );
+
+    const gitLab = this.connect(
+      await this.resolveRegistration(job.projectId, job.projectPath),
+    );
+    await this.finalizeTrackingComment(gitLab, job, status);
+    await this.swapTriggerLabel(gitLab, job, status);
+    await this.releaseResourceLock(job);
+
+    // Free the pipeline slot for queued jobs
+    await this.dispatchQueue
+      .markFinished(job.id, job.projectId)
+      .catch((error) => {
+        this.logger.warn("Failed to update running pipelines", {
+          error: error instanceof Error ? error.message : error,
+          jobId: job.id,
+        });
+      });
+    await this.dispatchQueued().catch((error) => {
+      this.logger.warn("Failed to dispatch queued jobs", {
+        error: error instanceof Error ? error.message : error,
+      });
+    });
+
+    return { status: "processed", message: status, pipelineId };
+  }
+
+  /**
+   * Finds the job behind a pipeline event, either from the job registry or,
+   * if the pipeline is unknown there, from the CLAUDE_* pipeline variables
+   */
+  private async resolvePipelineJob(
+    payload: WebhookPayload,
+  ): Promise<JobRecord | null> {
+    const projectId = payload.project?.id;
+    const pipelineId = payload.object_attributes?.id;
+
+    try {
+      const job = await this.jobStore.findByPipeline(projectId, pipelineId);
+      if (job) {
+        return job;
+      }
+    } catch (error) {
+      this.logger.warn("Failed to look up job for pipeline", {
+        error: error instanceof Error ? error.message : error,
+        pipelineId,
+      });
+    }
+
+    const variables = Object.fromEntries(
+      (payload.object_attributes?.variables || []).map(({ key, value }) => [
+        key,
+        value,
+      ]),
+    );
+
+    if (variables.CLAUDE_TRIGGER !== "true") {
+      return null;
+    }
+
+    // Adopt pipelines the registry does not know, e.g. after losing Redis data
+    const now = new Date().toISOString();
+    const job: JobRecord = {
+      id: variables.CLAUDE_JOB_ID || crypto.randomUUID(),
+      projectId,
+      projectPath:
+        variables.CLAUDE_PROJECT_PATH || payload.project?.path_with_namespace,
+      resourceType: variables.CLAUDE_RESOURCE_TYPE || "unknown",
+      resourceId: variables.CLAUDE_RESOURCE_ID || "",
+      authorUsername: variables.CLAUDE_AUTHOR || payload.user?.username,
+      prompt: variables.DIRECT_PROMPT || "",
+      triggerLabel: variables.CLAUDE_TRIGGER_LABEL || undefined,
+      branch: variables.CLAUDE_BRANCH || payload.object_attributes?.ref || "",
+      pipelineId,
+      status: "pending",
+      createdAt: payload.object_attributes?.created_at || now,
+      updatedAt: now,
+    };
+
+    await this.jobStore.save(job).catch((error) => {
+      this.logger.warn("Failed to register job for pipeline", {
+        error: error instanceof Error ? error.message : error,
+        pipelineId,
+      });
+    });
+
+    return job;
+  }
+
+  /**
+   * Replace the label that triggered a finished job with the done or failed
+   * label configured for it, if any
+   */
+  private async swapTriggerLabel(
+    gitLab: GitLabConnection,
+    job: JobRecord,
+    status: string,
+  ): Promise<void> {
+    if (!job.triggerLabel || !job.resourceId) {
+      return;
+    }
+
+    const trigger = this.getLabelTriggers()[job.triggerLabel];
+    const label =
+      status === "success" ? trigger?.doneLabel : trigger?.failedLabel;
+    if (!label) {
+      return;
+    }
+
+    const projectId = String(job.projectId);
+    const labels = { addLabels: [label], removeLabels: [job.triggerLabel] };
+
+    try {
+      if (job.resourceType === "merge_request") {
+        await gitLab.adapter.editMergeRequestLabels({
+          projectId,
+          mergeRequestIid: job.resourceId,
+          ...labels,
+        });
+      } else {
+        await gitLab.adapter.editIssueLabels({
+          projectId,
+          issueIid: job.resourceId,
+          ...labels,
+        });
+      }
+
+      this.logger.info("Trigger label swapped", {
+        jobId: job.id,
+        from: job.triggerLabel,
+        to: label,
+      });
+    } catch (error) {
+      this.metrics.recordGitLabApiError("edit_labels");
+      this.logger.warn("Failed to swap trigger label", {
+        error: error instanceof Error ? error.message : error,
+        jobId: job.id,
+        label: job.triggerLabel,
+      });
+    }
+  }
+
+  /**
+   * Patches the tracking comment when the pipeline ended before the update
+   * phase could replace the "working" header
+   */
+  private async finalizeTrackingComment(
+    gitLab: GitLabConnection,
+    job: JobRecord,
+    status: string,
+  ): Promise<void> {
+    if (!job.resourceId) {
+      return;
+    }
+
+    const projectId = String(job.projectId);
+
+    try {
+      const notes =
+        job.resourceType === "merge_request"
+          ? await gitLab.adapter.allMergeRequestNotes({
+              projectId,
+              mergeRequestIid: job.resourceId,
+            })
+          : await gitLab.adapter.allIssueNotes({
+              projectId,
+              issueIid: job.resourceId,
+            });
+
+      const trackingNote = notes.find(
+        (note) =>
+          note.body.includes(TRACKING_COMMENT_HEADER) &&
+          note.body.includes(`/pipelines/${job.pipelineId}`),
+      );
+
+      if (!trackingNote) {
+        this.logger.debug("No stale tracking comment found", {
+          pipelineId: job.pipelineId,
+        });
+        return;
+      }
+
+      const statusMessage =
+        status === "success"
+          ? "✅ Claude's work is complete"
+          : "❌ Claude's work failed";
+      const body = withBotMarker(
+        `${trackingNote.body
+          .replace(TRACKING_COMMENT_HEADER, statusMessage)
+          .trimEnd()}\n\n**Pipeline ${status}:** the job ended before Claude could report back.`,
+      );
+
+      if (job.resourceType === "merge_request") {
+        await gitLab.adapter.editMergeRequestNote({
+          projectId,
+          mergeRequestIid: job.resourceId,
+          noteId: trackingNote.id,
+          body,
+        });
+      } else {
+        await gitLab.adapter.editIssueNote({
+          projectId,
+          issueIid: job.resourceId,
+          noteId: trackingNote.id,
+          body,
+        });
+      }
+
+      this.logger.info("Tracking comment finalized", {
+        pipelineId: job.pipelineId,
+        noteId: trackingNote.id,
+        status,
+      });
+    } catch (error) {
+      this.metrics.recordGitLabApiError("update_tracking_comment");
+      this.logger.warn("Failed to finalize tracking comment", {
+        error: error instanceof Error ? error.message : error,
+        pipelineId: job.pipelineId,
+      });
+    }
+  }
+
+  private async resolveDisabledScope(
+    projectId: number,
+    projectPath: string,
+  ): Promise<DisabledScope | null> {
+    try {
+      return await this.stateStore.getDisabledScope(projectId, projectPath);
+    } catch (error) {
+      // Fall back to the environment switch if the state store is unavailable
+      this.logger.warn("Failed to read bot state", {
+        error: error instanceof Error ? error.message : error,
+      });
+      return this.environment.get(EnvVar.CLAUDE_DISABLED) === "true"
+        ? { scope: "global" }
+        : null;
+    }
+  }
+
+  /**
+   * Why a trigger comes from a bot rather than a person, if it does: the
+   * configured bot user, an access token bot or service account, or a note
+   * carrying the marker the bot embeds in its own comments
+   */
+  private detectBotLoop(
+    authorUsername: string | undefined,
+    text: string,
+  ): string | null {
+    const botUsername = this.getBotUsername();
+    if (
+      authorUsername &&
+      botUsername &&
+      authorUsername.toLowerCase() === botUsername
+    ) {
+      return "bot-user";
+    }
+
+    if (
+      authorUsername &&
+      BOT_USERNAME_PATTERNS.some((pattern) => pattern.test(authorUsername))
+    ) {
+      return "bot-account";
+    }
+
+    if (hasBotMarker(text)) {
+      return "bot-marker";
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolves the text to scan for the trigger phrase and the resource it
+   * belongs to. Returns null when the event should not trigger a run.
+   */
+  private extractTriggerSource(
+    gitlabEvent: string,
+    payload: WebhookPayload,
+    triggerPhrase: string,
+  ): TriggerSource | null {
+    const attributes = payload.object_attributes;
+
+    if (gitlabEvent === "Note Hook") {
+      const note = attributes?.note || "";
+
+      // Check for trigger phrase mention
+      if (!containsTriggerPhrase(note, triggerPhrase)) {
+        this.logger.debug(`No ${triggerPhrase} mention found in note`);
+        return null;
+      }
+
+      return {
+        text: note,
+        mrIid: payload.merge_request?.iid,
+        issueIid: payload.issue?.iid,
+        noteId: attributes?.id,
+        discussionId: attributes?.discussion_id,
+        issueTitle: payload.issue?.title,
+        sourceBranch: payload.merge_request?.source_branch,
+      };
+    }
 
-    if (!(await this.limiter.limitByUser(key))) {
-      this.logger.warn("Rate limit exceeded", {
-        key,
-        author: authorUsername,
+    // Merge Request Hook and Issue Hook carry the resource in object_attributes
+    const action = attributes?.action;
+    if (!action || !TRIGGERING_ACTIONS.includes(action)) {
+      this.logger.debug("Ignoring resource event action", {
+        event: gitlabEvent,
+        action,
       });
+      return null;
+    }
 
-      // Send Discord notification for rate limit
-      this.discord.sendRateLimitNotification(
-        projectPath,
-        authorUsername,
-        mrIid ? "merge_request" : issueIid ? "issue" : "unknown",
-        String(mrIid || issueIid || ""),
-      );
+    const objectKind =
+      gitlabEvent === "Merge Request Hook" ? "merge_request" : "issue";
+    const title = attributes?.title || "";
+    const description = attributes?.description || "";
+    const text = [title, description].filter(Boolean).join("\n\n");
+    const resource: TriggerSource =
+      objectKind === "merge_request"
+        ? {
+            text,
+            mrIid: attributes?.iid,
+            sourceBranch: attributes?.source_branch,
+          }
+        : {
+            text,
+            issueIid: attributes?.iid,
+            issueTitle: title,
+          };
 
-      return {
-        status: "rate-limited",
-        message: "rate-limited",
-        errorCode: 429,
-      };
+    // Trigger labels and assigning the bot start a run without a mention
+    const changeTrigger = this.extractChangeTrigger(payload);
+    if (changeTrigger) {
+      return { ...resource, ...changeTrigger };
     }
 
-    this.logger.info(`${triggerPhrase} triggered`, {
-      project: projectPath,
-      author: authorUsername,
-      resourceType: mrIid ? "merge_request" : issueIid ? "issue" : "unknown",
-      resourceId: mrIid || issueIid,
-    });
+    if (
+      !checkContainsTrigger({
+        payload: {
+          object_kind: objectKind,
+          object_attributes: { title, description },
+        },
+        triggerPhrase,
+      })
+    ) {
+      this.logger.debug(`No ${triggerPhrase} mention found in ${objectKind}`);
+      return null;
+    }
 
-    try {
-      // Determine branch ref
-      const ref = await this.determineBranchRef(
-        payload,
-        projectId,
-        issueIid,
-        issueTitle,
-      );
+    // On updates, only trigger when the mention was newly added
+    if (action === "update") {
+      const previousTitle = payload.changes?.title?.previous ?? title;
+      const previousDescription =
+        payload.changes?.description?.previous ?? description;
 
-      // Extract the prompt after the trigger phrase
-      const promptMatch = note.match(
-        new RegExp(
-          `${triggerPhrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s+(.*)`,
-          "is",
-        ),
-      );
-      const directPrompt = promptMatch ? promptMatch[1].trim() : "";
+      if (
+        checkContainsTrigger({
+          payload: {
+            object_kind: objectKind,
+            object_attributes: {
+              title: previousTitle,
+              description: previousDescription,
+            },
+          },
+          triggerPhrase,
+        })
+      ) {
+        this.logger.debug(
+          `${triggerPhrase} mention already present before update`,
+          { event: gitlabEvent },
+        );
+        return null;
+      }
+    }
 
-      // Create minimal webhook payload for CI/CD variable (10KB limit)
-      const minimalPayload = {
-        object_kind: payload.object_kind,
-        project: payload.project,
-        user: payload.user,
-        object_attributes: payload.object_attributes
-          ? {
-              note: payload.object_attributes.note,
-              noteable_type: payload.object_attributes.noteable_type,
-            }
-          : undefined,
-        merge_request: payload.merge_request
-          ? {
-              iid: payload.merge_request.iid,
-              title: payload.merge_request.title,
-              state: payload.merge_request.state,
-            }
-          : undefined,
-        issue: payload.issue
-          ? {
-              iid: payload.issue.iid,
-              title: payload.issue.title,
-              state: payload.issue.state,
-            }
-          : undefined,
-      };
+    return resource;
+  }
 
-      // Trigger pipeline with variables
-      const variables = {
-        CLAUDE_TRIGGER: "true",
-        CLAUDE_AUTHOR: authorUsername,
-        CLAUDE_RESOURCE_TYPE: mrIid ? "merge_request" : "issue",
-        CLAUDE_RESOURCE_ID: String(mrIid || issueIid || ""),
-        CLAUDE_NOTE: note,
-        CLAUDE_PROJECT_PATH: projectPath,
-        CLAUDE_BRANCH: ref,
-        TRIGGER_PHRASE: triggerPhrase,
-        DIRECT_PROMPT: directPrompt,
-        GITLAB_WEBHOOK_PAYLOAD: JSON.stringify(minimalPayload),
-      };
+  /**
+   * Resolves the note the trigger emoji was awarded to. The note's content is
+   * the request, while the awarder is its author
+   */
+  private async extractReactionSource(
+    gitLab: GitLabConnection,
+    payload: WebhookPayload,
+    triggerPhrase: string,
+  ): Promise<TriggerSource | null> {
+    const attributes = payload.object_attributes;
+    const triggerEmoji = this.environment
+      .get(EnvVar.TRIGGER_EMOJI)
+      ?.replace(/^:|:$/g, "");
+    const mrIid = payload.merge_request?.iid;
+    const issueIid = payload.issue?.iid;
+    const noteId = attributes?.awardable_id;
 
-      this.logger.info("Triggering pipeline", {
-        projectId,
-        ref,
-        variables: this.logger.maskSensitive(variables),
+    if (
+      !triggerEmoji ||
+      payload.event_type !== "award" ||
+      attributes?.name !== triggerEmoji ||
+      attributes.awardable_type !== "Note" ||
+      !noteId ||
+      !(mrIid || issueIid)
+    ) {
+      this.logger.debug("Ignoring emoji event", {
+        emoji: attributes?.name,
+        awardableType: attributes?.awardable_type,
       });
+      return null;
+    }
 
-      const pipelineId = await this.triggerPipeline(projectId, ref, variables);
-
-      this.logger.info("Pipeline triggered successfully", {
-        pipelineId,
+    const projectId = String(payload.project.id);
+    let note: { body: string; system: boolean };
+    try {
+      note = mrIid
+        ? await gitLab.adapter.showMergeRequestNote({
+            projectId,
+            mergeRequestIid: mrIid,
+            noteId,
+          })
+        : await gitLab.adapter.showIssueNote({
+            projectId,
+            issueIid: issueIid as number,
+            noteId,
+          });
+    } catch (error) {
+      this.metrics.recordGitLabApiError("show_note");
+      this.logger.warn("Failed to fetch awarded note", {
+        error: error instanceof Error ? error.message : error,
         projectId,
-        ref,
+        noteId,
       });
+      return null;
+    }
 
-      // Send Discord notification (fire-and-forget)
-      this.discord.sendPipelineNotification({
-        projectPath,
-        authorUsername,
-        resourceType: mrIid ? "merge_request" : issueIid ? "issue" : "unknown",
-        resourceId: String(mrIid || issueIid || ""),
-        branch: ref,
-        pipelineId,
-        gitlabUrl:
-          this.environment.get(EnvVar.GITLAB_URL) || "https://gitlab.com",
-        triggerPhrase,
-        directPrompt,
-        issueTitle: issueTitle || undefined,
+    if (note.system || !note.body.trim()) {
+      this.logger.debug("Ignoring emoji on a system or empty note", {
+        noteId,
       });
+      return null;
+    }
 
-      // Cancel old pipelines if configured
-      if (this.environment.get(EnvVar.CANCEL_OLD_PIPELINES) === "true") {
-        await this.cancelOldPipelines(projectId, pipelineId, ref);
-      }
+    // The note may address Claude with a command, or be the request itself.
+    // A mention without a command or text after it, e.g. "@claude" or
+    // "Please rename this @claude", leaves the whole note as the request.
+    const parsed = parseTriggerCommand(note.body, triggerPhrase);
+    const command =
+      parsed && (parsed.command || parsed.prompt)
+        ? parsed
+        : { options: parsed?.options ?? {}, prompt: note.body.trim() };
+    const discussionId = payload.note?.discussion_id;
 
-      return { status: "started", pipelineId, branch: ref };
-    } catch (error) {
-      this.logger.error("Failed to trigger pipeline", {
-        error: error instanceof Error ? error.message : error,
-        projectId: payload.project?.id,
-      });
+    return {
+      text: note.body,
+      mrIid,
+      issueIid,
+      noteId,
+      discussionId,
+      issueTitle: payload.issue?.title,
+      sourceBranch: payload.merge_request?.source_branch,
+      command,
+      payload: {
+        ...payload,
+        object_kind: "note",
+        object_attributes: {
+          ...attributes,
+          id: noteId,
+          note: note.body,
+          noteable_type: mrIid ? "MergeRequest" : "Issue",
+          discussion_id: discussionId,
+        },
+      },
+    };
+  }
+
+  /**
+   * Finds a trigger label newly added to a merge request or issue, or the bot
+   * user newly added as its reviewer or assignee
+   */
+  private extractChangeTrigger(
+    payload: WebhookPayload,
+  ): Pick<TriggerSource, "command" | "triggerLabel"> | null {
+    const changes = payload.changes;
+    const labelTriggers = this.getLabelTriggers();
+    const previousLabels = new Set(
+      (changes?.labels?.previous ?? []).map((label) => label.title),
+    );
+    const triggerLabel = (changes?.labels?.current ?? [])
+      .map((label) => label.title)
+      .find((label) => !previousLabels.has(label) && labelTriggers[label]);
+
+    if (triggerLabel) {
+      const trigger = labelTriggers[triggerLabel];
       return {
-        status: "error",
-        message: "Failed to trigger pipeline",
-        errorCode: 500,
+        triggerLabel,
+        command: {
+          command: trigger?.command,
+          options: {},
+          prompt: trigger?.prompt ?? "",
+        },
       };
     }
+
+    const botUsername = this.getBotUsername();
+    if (!botUsername) {
+      return null;
+    }
+
+    const includesBot = (users?: WebhookUser[]) =>
+      users?.some((user) => user.username.toLowerCase() === botUsername) ??
+      false;
+    for (const [field, command] of ASSIGNMENT_COMMANDS) {
+      const change = changes?.[field];
+      if (
+        change &&
+        includesBot(change.current) &&
+        !includesBot(change.previous)
+      ) {
+        return { command: { command, options: {}, prompt: "" } };
+      }
+    }
+
+    return null;
+  }
+
+  private getLabelTriggers(): LabelTriggers {
+    if (this.labelTriggers) {
+      return this.labelTriggers;
+    }
+
+    const rawTriggers = this.environment.get(EnvVar.LABEL_TRIGGERS);
+    this.labelTriggers = {};
+    if (rawTriggers) {
+      try {
+        this.labelTriggers = parseLabelTriggers(
+          JSON.parse(rawTriggers),
+          this.logger,
+        );
+      } catch (error) {
+        this.logger.error("Invalid LABEL_TRIGGERS, ignoring it", {
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+    return this.labelTriggers;
+  }
+
+  /**
+   * Username of the account Claude posts as, lowercase and without "@"
+   */
+  private getBotUsername(): string | undefined {
+    return this.environment
+      .get(EnvVar.GITLAB_BOT_USERNAME)
+      ?.replace(/^@/, "")
+      .toLowerCase();
   }
 
   private async determineBranchRef(
-    payload: WebhookPayload,
+    gitLab: GitLabConnection,
     projectId: number,
-    issueIid?: number,
-    issueTitle?: string,
+    { mrIid, issueIid, issueTitle, sourceBranch }: Omit<TriggerSource, "text">,
   ): Promise<string> {
-    let ref = payload.merge_request?.source_branch;
+    let ref = sourceBranch;
 
     // For issues, create a branch
-    if (issueIid && !payload.merge_request?.iid) {
+    if (issueIid && !mrIid) {
       // Get project details for default branch
-      const project = await this.getProject(projectId);
+      const project = await this.getProject(gitLab, projectId);
       const defaultBranch = project.default_branch || "main";
 
       // Generate branch name with timestamp to ensure uniqueness
@@ -246,7 +1787,7 @@ export class WebhookOrchestrator {
       });
 
       // Try to create the branch
-      await this.createBranch(projectId, branchName, defaultBranch);
+      await this.createBranch(gitLab, projectId, branchName, defaultBranch);
       ref = branchName;
     } else if (!ref) {
       // For merge requests without a source branch, fail
@@ -257,11 +1798,469 @@ export class WebhookOrchestrator {
     return ref;
   }
 
+  private async resolveRegistration(
+    projectId: number | undefined,
+    projectPath: string | undefined,
+  ): Promise<ProjectRegistration | null> {
+    if (!projectId) {
+      return null;
+    }
+
+    try {
+      return await this.registry.resolve(projectId, projectPath);
+    } catch (error) {
+      this.logger.warn("Failed to look up project registration", {
+        error: error instanceof Error ? error.message : error,
+        projectId,
+      });
+      return null;
+    }
+  }
+
+  private connect(registration: ProjectRegistration | null): GitLabConnection {
+    return {
+      adapter: this.gitLabAdapters.create(registration?.gitlabToken),
+      token: registration?.gitlabToken,
+    };
+  }
+
+  /**
+   * Public URL of this server, if pipelines are set up to call back to it
+   */
+  private getCallbackUrl(): string | undefined {
+    const serverUrl = this.environment.get(EnvVar.WEBHOOK_SERVER_URL);
+    if (!serverUrl || !this.environment.get(EnvVar.WEBHOOK_PAYLOAD_TOKEN)) {
+      return undefined;
+    }
+    return serverUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * Take the resource lock, treating Redis failures as an acquired lock so
+   * that triggers keep working without Redis
+   */
+  private async acquireResourceLock(
+    projectId: number,
+    resource: string,
+    lock: ResourceLock,
+  ): Promise<ResourceLock | null> {
+    try {
+      return await this.resourceLock.acquire(projectId, resource, lock);
+    } catch (error) {
+      this.logger.warn("Failed to acquire resource lock", {
+        error: error instanceof Error ? error.message : error,
+        resource,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Release the lock a finished job holds on its merge request or issue
+   */
+  private async releaseResourceLock(
+    job: Pick<JobRecord, "id" | "projectId" | "resourceType" | "resourceId">,
+  ): Promise<boolean> {
+    if (!job.resourceId) {
+      return false;
+    }
+
+    const resource = lockResource(job.resourceType, job.resourceId);
+    try {
+      const released = await this.resourceLock.release(
+        job.projectId,
+        resource,
+        job.id,
+      );
+      if (released) {
+        this.logger.debug("Released resource lock", {
+          jobId: job.id,
+          resource,
+        });
+      }
+      return released;
+    } catch (error) {
+      this.logger.warn("Failed to release resource lock", {
+        error: error instanceof Error ? error.message : error,
+        jobId: job.id,
+        resource,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Cancel the run holding the merge request or issue, or drop it from the
+   * queue if its pipeline has not started yet
+   */
+  private async stopRun(
+    target: ControlTarget,
+  ): Promise<WebhookProcessingResult> {
+    const { gitLab, projectId, resourceType, resourceId, user } = target;
+    const resource = lockResource(resourceType, resourceId);
+    const holder = await this.getResourceLock(projectId, resource);
+
+    if (!holder) {
+      await this.replyToResource(
+        gitLab,
+        projectId,
+        target.replyTarget,
+        `@${user.username} there is no Claude run in progress on this ${describeResource(resourceType)}.`,
+      );
+      return { status: "ignored", message: "no run to stop" };
+    }
+
+    if (!(await this.mayControl(target, holder.authorUsername, "stop"))) {
+      return { status: "forbidden", message: "forbidden: not the requester" };
+    }
+
+    if (holder.pipelineId) {
+      try {
+        await gitLab.adapter.cancelPipeline({
+          projectId,
+          pipelineId: holder.pipelineId,
+        });
+      } catch (error) {
+        this.metrics.recordGitLabApiError("cancel_pipeline");
+        this.logger.error("Failed to stop pipeline", {
+          error: error instanceof Error ? error.message : error,
+          projectId,
+          pipelineId: holder.pipelineId,
+        });
+        await this.replyToResource(
+          gitLab,
+          projectId,
+          target.replyTarget,
+          `@${user.username} Claude's run in ${this.pipelineLink(target, holder.pipelineId)} could not be stopped, please cancel the pipeline in GitLab.`,
+        );
+        return {
+          status: "error",
+          message: "Failed to stop pipeline",
+          errorCode: 500,
+        };
+      }
+      // The pipeline event of the cancellation releases the lock
+    } else {
+      try {
+        await this.dispatchQueue.remove(holder.jobId);
+        await this.resourceLock.release(projectId, resource, holder.jobId);
+      } catch (error) {
+        this.logger.warn("Failed to remove queued job", {
+          error: error instanceof Error ? error.message : error,
+          jobId: holder.jobId,
+        });
+      }
+    }
+
+    this.logger.info("Claude run stopped", {
+      projectId,
+      resource,
+      jobId: holder.jobId,
+      pipelineId: holder.pipelineId,
+      stoppedBy: user.username,
+    });
+
+    await this.replyToResource(
+      gitLab,
+      projectId,
+      target.replyTarget,
+      holder.pipelineId
+        ? `@${user.username} stopped Claude's run in ${this.pipelineLink(target, holder.pipelineId)}.`
+        : `@${user.username} removed the queued request of @${holder.authorUsername}.`,
+    );
+
+    return {
+      status: "processed",
+      message: "stopped",
+      pipelineId: holder.pipelineId,
+    };
+  }
+
+  /**
+   * Reply with the state of the current run on the merge request or issue,
+   * or of the last one if none is in progress
+   */
+  private async reportStatus(
+    target: ControlTarget,
+  ): Promise<WebhookProcessingResult> {
+    const { gitLab, projectId, resourceType, resourceId, user } = target;
+    const resourceLabel = describeResource(resourceType);
+    const holder = await this.getResourceLock(
+      projectId,
+      lockResource(resourceType, resourceId),
+    );
+    const job = holder
+      ? await this.jobStore.get(holder.jobId).catch(() => null)
+      : await this.jobStore
+          .findLatestByResource(projectId, resourceType, resourceId)
+          .catch(() => null);
+
+    const requester = holder?.authorUsername ?? job?.authorUsername;
+    if (!requester) {
+      await this.replyToResource(
+        gitLab,
+        projectId,
+        target.replyTarget,
+        `@${user.username} Claude has not worked on this ${resourceLabel} yet.`,
+      );
+      return { status: "processed", message: "status" };
+    }
+
+    if (!(await this.mayControl(target, requester, "check"))) {
+      return { status: "forbidden", message: "forbidden: not the requester" };
+    }
+
+    let message: string;
+    if (holder && !holder.pipelineId) {
+      const queue = await this.dispatchQueue.list().catch(() => []);
+      const position =
+        queue.findIndex((queued) => queued.jobId === holder.jobId) + 1;
+      message = `the request of @${requester} is queued${position ? ` at position ${position}` : ""} and has not started yet.`;
+    } else {
+      const pipelineId = holder?.pipelineId ?? job?.pipelineId;
+      const status = job?.status ?? "pending";
+      const pipeline = pipelineId
+        ? ` in ${this.pipelineLink(target, pipelineId)}`
+        : "";
+      message = holder
+        ? `Claude is working on this ${resourceLabel} for @${requester}${pipeline}. Status: **${status}**.`
+        : `the last Claude run on this ${resourceLabel} was requested by @${requester}${pipeline}. Status: **${status}**.`;
+    }
+
+    await this.replyToResource(
+      gitLab,
+      projectId,
+      target.replyTarget,
+      `@${user.username} ${message}`,
+    );
+    return { status: "processed", message: "status" };
+  }
+
+  /**
+   * Find the last request on the merge request or issue to run again.
+   * Returns the result to respond with when there is nothing to retry.
+   */
+  private async resolveRetry(
+    target: ControlTarget,
+  ): Promise<TriggerCommand | WebhookProcessingResult> {
+    const { gitLab, projectId, resourceType, resourceId, user } = target;
+    const job = await this.jobStore
+      .findLatestByResource(projectId, resourceType, resourceId)
+      .catch((error) => {
+        this.logger.warn("Failed to look up job to retry", {
+          error: error instanceof Error ? error.message : error,
+          projectId,
+          resourceId,
+        });
+        return null;
+      });
+
+    if (!job) {
+      await this.replyToResource(
+        gitLab,
+        projectId,
+        target.replyTarget,
+        `@${user.username} there is no earlier Claude run on this ${describeResource(resourceType)} to retry.`,
+      );
+      return { status: "ignored", message: "nothing to retry" };
+    }
+
+    if (!(await this.mayControl(target, job.authorUsername, "retry"))) {
+      return { status: "forbidden", message: "forbidden: not the requester" };
+    }
+
+    this.logger.info("Retrying Claude run", {
+      projectId,
+      resourceId,
+      jobId: job.id,
+      retriedBy: user.username,
+    });
+
+    return {
+      command: job.command,
+      options: job.options ?? {},
+      prompt: job.prompt,
+    };
+  }
+
+  /**
+   * Only the requester of a run and maintainers may control it. Replies to
+   * anyone else.
+   */
+  private async mayControl(
+    target: ControlTarget,
+    requester: string,
+    action: string,
+  ): Promise<boolean> {
+    const { gitLab, projectId, user } = target;
+    if (user.username === requester) {
+      return true;
+    }
+
+    const accessLevel = await this.getAccessLevel(gitLab, projectId, user.id);
+    if (accessLevel >= MAINTAINER_ACCESS_LEVEL) {
+      return true;
+    }
+
+    this.logger.warn("Control command forbidden", {
+      projectId,
+      action,
+      author: user.username,
+      requester,
+    });
+    await this.replyToResource(
+      gitLab,
+      projectId,
+      target.replyTarget,
+      `@${user.username} only @${requester} or a maintainer can ${action} this run.`,
+    );
+    return false;
+  }
+
+  private pipelineLink(target: ControlTarget, pipelineId: number): string {
+    return `[pipeline #${pipelineId}](${target.webUrl}/-/pipelines/${pipelineId})`;
+  }
+
+  /**
+   * Get the lock of a merge request or issue, treating Redis failures as no
+   * lock
+   */
+  private async getResourceLock(
+    projectId: number,
+    resource: string,
+  ): Promise<ResourceLock | null> {
+    try {
+      return await this.resourceLock.get(projectId, resource);
+    } catch (error) {
+      this.logger.warn("Failed to read resource lock", {
+        error: error instanceof Error ? error.message : error,
+        resource,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Award the "eyes" emoji to the note that triggered a job
+   */
+  private async awardTriggerNote(
+    gitLab: GitLabConnection,
+    job: QueuedJob,
+    noteId: number,
+  ): Promise<void> {
+    const projectId = String(job.projectId);
+
+    try {
+      if (job.resourceType === "merge_request") {
+        await gitLab.adapter.awardMergeRequestNoteEmoji({
+          projectId,
+          mergeRequestIid: job.resourceId,
+          noteId,
+          name: TRIGGER_ACKNOWLEDGEMENT_EMOJI,
+        });
+      } else {
+        await gitLab.adapter.awardIssueNoteEmoji({
+          projectId,
+          issueIid: job.resourceId,
+          noteId,
+          name: TRIGGER_ACKNOWLEDGEMENT_EMOJI,
+        });
+      }
+    } catch (error) {
+      this.metrics.recordGitLabApiError("award_emoji");
+      this.logger.warn("Failed to acknowledge triggering note", {
+        error: error instanceof Error ? error.message : error,
+        projectId: job.projectId,
+        noteId,
+      });
+    }
+  }
+
+  /**
+   * Post a note on the merge request or issue of a trigger, in the thread of
+   * the triggering note if there is one
+   */
+  private async replyToResource(
+    gitLab: GitLabConnection,
+    projectId: number,
+    target: ReplyTarget,
+    body: string,
+  ): Promise<void> {
+    const { noteId, discussionId } = target;
+
+    try {
+      if (target.mrIid) {
+        if (noteId && discussionId) {
+          await gitLab.adapter.createMergeRequestDiscussionNote({
+            projectId: String(projectId),
+            mergeRequestIid: String(target.mrIid),
+            discussionId,
+            noteId,
+            body: withBotMarker(body),
+          });
+        } else {
+          await gitLab.adapter.createMergeRequestNote({
+            projectId: String(projectId),
+            mergeRequestIid: String(target.mrIid),
+            body: withBotMarker(body),
+          });
+        }
+      } else if (target.issueIid) {
+        if (noteId && discussionId) {
+          await gitLab.adapter.createIssueDiscussionNote({
+            projectId: String(projectId),
+            issueIid: String(target.issueIid),
+            discussionId,
+            noteId,
+            body: withBotMarker(body),
+          });
+        } else {
+          await gitLab.adapter.createIssueNote({
+            projectId: String(projectId),
+            issueIid: String(target.issueIid),
+            body: withBotMarker(body),
+          });
+        }
+      }
+    } catch (error) {
+      this.metrics.recordGitLabApiError("create_note");
+      this.logger.warn("Failed to post reply note", {
+        error: error instanceof Error ? error.message : error,
+        projectId,
+      });
+    }
+  }
+
+  /**
+   * Store the complete payload for the pipeline and return the URL it can be
+   * fetched from, if the payload endpoint is configured
+   */
+  private async storePayload(
+    payload: WebhookPayload,
+  ): Promise<string | undefined> {
+    const callbackUrl = this.getCallbackUrl();
+    if (!callbackUrl) {
+      return undefined;
+    }
+
+    try {
+      const id = await this.payloadStore.save(payload);
+      return `${callbackUrl}/payloads/${id}`;
+    } catch (error) {
+      this.logger.warn("Failed to store webhook payload", {
+        error: error instanceof Error ? error.message : error,
+      });
+      return undefined;
+    }
+  }
+
   private async triggerPipeline(
+    gitLab: GitLabConnection,
     projectId: number,
     ref: string,
     variables?: Record<string, string>,
   ): Promise<number> {
+    const start = Date.now();
     try {
       this.logger.debug("Creating pipeline", {
         projectId,
@@ -271,7 +2270,8 @@ export class WebhookOrchestrator {
 
       const gitlabUrl =
         this.environment.get(EnvVar.GITLAB_URL) || "https://gitlab.com";
-      const token = this.environment.require(EnvVar.GITLAB_TOKEN);
+      const token =
+        gitLab.token || this.environment.require(EnvVar.GITLAB_TOKEN);
 
       // Transform variables to GitLab API format
       const pipelineVariables = variables
@@ -342,16 +2342,20 @@ export class WebhookOrchestrator {
 
       return responseData.id;
     } catch (error) {
+      this.metrics.recordGitLabApiError("create_pipeline");
       this.logger.error("Failed to create pipeline", {
         error: error instanceof Error ? error.message : error,
         projectId,
         ref,
       });
       throw error;
+    } finally {
+      this.metrics.observeTriggerLatency((Date.now() - start) / 1000);
     }
   }
 
   private async cancelOldPipelines(
+    gitLab: GitLabConnection,
     projectId: number,
     keepPipelineId: number,
     ref: string,
@@ -363,7 +2367,7 @@ export class WebhookOrchestrator {
       });
 
       // List pipelines for the ref
-      const pipelines = await this.gitLabAdapter.allPipelines({
+      const pipelines = await gitLab.adapter.allPipelines({
         projectId,
         options: {
           ref,
@@ -375,9 +2379,10 @@ export class WebhookOrchestrator {
       const cancelPromises = pipelines
         .filter((p) => p.id !== keepPipelineId)
         .map((p) =>
-          this.gitLabAdapter
+          gitLab.adapter
             .cancelPipeline({ projectId, pipelineId: p.id })
             .catch((err) => {
+              this.metrics.recordGitLabApiError("cancel_pipeline");
               this.logger.warn(`Failed to cancel pipeline ${p.id}:`, {
                 error: err instanceof Error ? err.message : err,
               });
@@ -389,6 +2394,7 @@ export class WebhookOrchestrator {
         count: cancelPromises.length,
       });
     } catch (error) {
+      this.metrics.recordGitLabApiError("list_pipelines");
       this.logger.error("Error cancelling old pipelines:", {
         error: error instanceof Error ? error.message : error,
       });
@@ -396,7 +2402,10 @@ export class WebhookOrchestrator {
     }
   }
 
-  private async getProject(projectId: number): Promise<{
+  private async getProject(
+    gitLab: GitLabConnection,
+    projectId: number,
+  ): Promise<{
     id: number;
     default_branch: string;
     path_with_namespace: string;
@@ -404,7 +2413,7 @@ export class WebhookOrchestrator {
     try {
       this.logger.debug("Fetching project details", { projectId });
 
-      const project = await this.gitLabAdapter.showProject(projectId);
+      const project = await gitLab.adapter.showProject(projectId);
 
       return {
         id: project.id,
@@ -412,6 +2421,7 @@ export class WebhookOrchestrator {
         path_with_namespace: project.path_with_namespace,
       };
     } catch (error) {
+      this.metrics.recordGitLabApiError("get_project");
       this.logger.error("Failed to fetch project", {
         error: error instanceof Error ? error.message : error,
         projectId,
@@ -421,6 +2431,7 @@ export class WebhookOrchestrator {
   }
 
   private async createBranch(
+    gitLab: GitLabConnection,
     projectId: number,
     branchName: string,
     ref: string,
@@ -434,7 +2445,8 @@ export class WebhookOrchestrator {
 
       const gitlabUrl =
         this.environment.get(EnvVar.GITLAB_URL) || "https://gitlab.com";
-      const token = this.environment.require(EnvVar.GITLAB_TOKEN);
+      const token =
+        gitLab.token || this.environment.require(EnvVar.GITLAB_TOKEN);
 
       const response = await this.httpClient.fetch(
         `${gitlabUrl}/api/v4/projects/${projectId}/repository/branches`,
@@ -479,6 +2491,7 @@ export class WebhookOrchestrator {
         branchName,
       });
     } catch (error) {
+      this.metrics.recordGitLabApiError("create_branch");
       this.logger.error("Failed to create branch", {
         error: error instanceof Error ? error.message : error,
         projectId,
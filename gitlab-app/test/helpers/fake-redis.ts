@@ -0,0 +1,151 @@
+import type { IRedisAdapter, IRedisAdapterFactory } from "../../src/interfaces";
+
+/**
+ * In-memory stand-in for Redis with the commands the services use, keys
+ * expire like in Redis
+ */
+export class FakeRedis implements IRedisAdapter {
+  private values = new Map<string, { value: string; expiresAt: number }>();
+  private sortedSets = new Map<string, Map<string, number>>();
+  private sets = new Map<string, Set<string>>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.values.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    this.values.set(key, {
+      value,
+      expiresAt: ttlSeconds
+        ? Date.now() + ttlSeconds * 1000
+        : Number.POSITIVE_INFINITY,
+    });
+  }
+
+  async setIfAbsent(
+    key: string,
+    value: string,
+    ttlSeconds: number,
+  ): Promise<boolean> {
+    if ((await this.get(key)) !== null) {
+      return false;
+    }
+    await this.set(key, value, ttlSeconds);
+    return true;
+  }
+
+  async del(key: string): Promise<number> {
+    const existed = (await this.get(key)) !== null;
+    this.values.delete(key);
+    return existed ? 1 : 0;
+  }
+
+  async delIfEquals(key: string, value: string): Promise<boolean> {
+    if ((await this.get(key)) !== value) {
+      return false;
+    }
+    return (await this.del(key)) > 0;
+  }
+
+  async setIfEquals(
+    key: string,
+    expected: string,
+    value: string,
+    ttlSeconds: number,
+  ): Promise<boolean> {
+    if ((await this.get(key)) !== expected) {
+      return false;
+    }
+    await this.set(key, value, ttlSeconds);
+    return true;
+  }
+
+  async expire(key: string, seconds: number): Promise<boolean> {
+    const value = await this.get(key);
+    if (value === null) {
+      return false;
+    }
+    await this.set(key, value, seconds);
+    return true;
+  }
+
+  async zAdd(key: string, score: number, value: string): Promise<number> {
+    const set = this.sortedSets.get(key) ?? new Map<string, number>();
+    this.sortedSets.set(key, set);
+    const added = set.has(value) ? 0 : 1;
+    set.set(value, score);
+    return added;
+  }
+
+  async zRem(key: string, member: string): Promise<number> {
+    return this.sortedSets.get(key)?.delete(member) ? 1 : 0;
+  }
+
+  async zCard(key: string): Promise<number> {
+    return this.sortedSets.get(key)?.size ?? 0;
+  }
+
+  async zRange(
+    key: string,
+    start: number,
+    stop: number,
+    reverse?: boolean,
+  ): Promise<string[]> {
+    const members = [...(this.sortedSets.get(key) ?? new Map()).entries()]
+      .sort(([a, x], [b, y]) => x - y || (a < b ? -1 : 1))
+      .map(([member]) => member as string);
+    if (reverse) {
+      members.reverse();
+    }
+    return members.slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  async zRemRangeByScore(
+    key: string,
+    min: number,
+    max: number,
+  ): Promise<number> {
+    const set = this.sortedSets.get(key);
+    let removed = 0;
+    for (const [member, score] of set ?? []) {
+      if (score >= min && score <= max) {
+        set?.delete(member);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async sAdd(key: string, member: string): Promise<number> {
+    const set = this.sets.get(key) ?? new Set<string>();
+    this.sets.set(key, set);
+    const added = set.has(member) ? 0 : 1;
+    set.add(member);
+    return added;
+  }
+
+  async sRem(key: string, member: string): Promise<number> {
+    return this.sets.get(key)?.delete(member) ? 1 : 0;
+  }
+
+  async sMembers(key: string): Promise<string[]> {
+    return [...(this.sets.get(key) ?? [])];
+  }
+
+  async eval(): Promise<unknown> {
+    throw new Error("Lua scripts are not supported by the fake Redis");
+  }
+
+  async ping(): Promise<string> {
+    return "PONG";
+  }
+}
+
+export function fakeRedisFactory(redis: IRedisAdapter): IRedisAdapterFactory {
+  return { create: async () => redis };
+}
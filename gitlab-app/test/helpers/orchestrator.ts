@@ -0,0 +1,171 @@
+import { mock } from "bun:test";
+import { EnvVar } from "../../../src/types";
+import {
+  DispatchQueueService,
+  JobStoreService,
+  MetricsService,
+  ResourceLockService,
+  StateStoreService,
+} from "../../src/services";
+import type {
+  WebhookAuthentication,
+  WebhookCredentials,
+  WebhookPayload,
+} from "../../src/types";
+import { WebhookOrchestrator } from "../../src/webhook-orchestrator";
+import { FakeRedis, fakeRedisFactory } from "./fake-redis";
+
+export const WEBHOOK_SECRET = "webhook-secret";
+
+export const credentials: WebhookCredentials = {
+  token: WEBHOOK_SECRET,
+  signature: {},
+  rawBody: "",
+};
+
+// Deliveries from an unregistered project with the global secret
+export const authorized: WebhookAuthentication = {
+  authorized: true,
+  registration: null,
+};
+
+/**
+ * Webhook orchestrator wired to a fake Redis, a mocked GitLab API and a
+ * pipeline endpoint that records the variables of every triggered pipeline
+ */
+export function createOrchestrator(env: Record<string, string> = {}) {
+  const environmentVars: Record<string, string> = {
+    [EnvVar.WEBHOOK_SECRET]: WEBHOOK_SECRET,
+    [EnvVar.GITLAB_TOKEN]: "gitlab-token",
+    [EnvVar.GITLAB_BOT_USERNAME]: "claude-bot",
+    ...env,
+  };
+  const environment: any = {
+    get: mock((key: string) => environmentVars[key]),
+    require: mock((key: string) => {
+      const value = environmentVars[key];
+      if (!value) {
+        throw new Error(`Required environment variable not found: ${key}`);
+      }
+      return value;
+    }),
+  };
+  const logger: any = {
+    info: mock(() => {}),
+    warn: mock(() => {}),
+    error: mock(() => {}),
+    debug: mock(() => {}),
+    maskSensitive: mock((value: any) => value),
+  };
+
+  // Variables of the triggered pipelines, in order
+  const pipelines: Record<string, string>[] = [];
+  const httpClient: any = {
+    fetch: mock(async (url: string, options?: RequestInit) => {
+      if (url.endsWith("/pipeline")) {
+        const { variables } = JSON.parse(String(options?.body));
+        pipelines.push(
+          Object.fromEntries(
+            variables.map(({ key, value }: any) => [key, value]),
+          ),
+        );
+        return new Response(JSON.stringify({ id: 100 + pipelines.length }));
+      }
+      return new Response("[]");
+    }),
+  };
+
+  const gitLab: any = {
+    getMember: mock(async () => ({ access_level: 30 })),
+    showProject: mock(async () => ({ default_branch: "main" })),
+    createBranch: mock(async () => ({})),
+    allPipelines: mock(async () => []),
+    cancelPipeline: mock(async () => ({})),
+    allMergeRequestNotes: mock(async () => []),
+    allIssueNotes: mock(async () => []),
+    showMergeRequestNote: mock(async () => ({ body: "", system: false })),
+    showIssueNote: mock(async () => ({ body: "", system: false })),
+    createMergeRequestNote: mock(async () => ({ id: 1 })),
+    createIssueNote: mock(async () => ({ id: 1 })),
+    createMergeRequestDiscussionNote: mock(async () => ({ id: 1 })),
+    createIssueDiscussionNote: mock(async () => ({ id: 1 })),
+    editMergeRequestNote: mock(async () => ({})),
+    editIssueNote: mock(async () => ({})),
+    awardMergeRequestNoteEmoji: mock(async () => ({})),
+    awardIssueNoteEmoji: mock(async () => ({})),
+    editMergeRequestLabels: mock(async () => ({})),
+    editIssueLabels: mock(async () => ({})),
+  };
+
+  const redis = new FakeRedis();
+  const redisFactory = fakeRedisFactory(redis);
+  const registry: any = { resolve: mock(async () => null) };
+  const limiter: any = {
+    consume: mock(async () => null),
+    getStatus: mock(() => ({})),
+  };
+  const notifications: any = { dispatch: mock(() => {}) };
+  const jobStore = new JobStoreService(redisFactory);
+  const stateStore = new StateStoreService(redisFactory, environment);
+  const metrics = new MetricsService();
+  const accessControl: any = { check: mock(async () => null) };
+  const dispatchQueue = new DispatchQueueService(redisFactory, environment);
+
+  const orchestrator = new WebhookOrchestrator(
+    environment,
+    logger,
+    httpClient,
+    { create: () => gitLab } as any,
+    notifications,
+    limiter,
+    jobStore,
+    stateStore,
+    { save: mock(async () => null), get: mock(async () => null) } as any,
+    new ResourceLockService(redisFactory, environment),
+    dispatchQueue,
+    accessControl,
+    registry,
+    metrics,
+  );
+
+  return {
+    orchestrator,
+    environmentVars,
+    logger,
+    httpClient,
+    gitLab,
+    redis,
+    registry,
+    notifications,
+    limiter,
+    jobStore,
+    stateStore,
+    dispatchQueue,
+    accessControl,
+    metrics,
+    pipelines,
+  };
+}
+
+export function notePayload(
+  note: string,
+  overrides: Partial<WebhookPayload> = {},
+): WebhookPayload {
+  return {
+    object_kind: "note",
+    project: {
+      id: 1,
+      path_with_namespace: "acme/app",
+      web_url: "https://gitlab.com/acme/app",
+    },
+    user: { id: 7, username: "alice", name: "Alice" },
+    object_attributes: {
+      id: 77,
+      note,
+      noteable_type: "MergeRequest",
+      discussion_id: "discussion-1",
+    },
+    merge_request: { iid: 5, source_branch: "feature", title: "Feature" },
+    ...overrides,
+  } as WebhookPayload;
+}
@@ -0,0 +1,211 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { EnvVar } from "../../../src/types";
+import type { IRedisAdapterFactory } from "../../src/interfaces";
+import {
+  AccessControlService,
+  parseAccessRules,
+} from "../../src/services/access-control.service";
+import type { AccessRules } from "../../src/types";
+import { FakeRedis, fakeRedisFactory } from "../helpers/fake-redis";
+
+describe("AccessControlService", () => {
+  let redis: FakeRedis;
+  let environmentVars: Record<string, string>;
+  let logger: any;
+
+  const createService = (redisFactory = fakeRedisFactory(redis)) =>
+    new AccessControlService(
+      redisFactory,
+      { get: (key: string) => environmentVars[key] } as any,
+      logger,
+    );
+
+  const checkWith = (
+    rules: AccessRules,
+    projectPath: string,
+    username = "alice",
+  ) => {
+    environmentVars[EnvVar.ACCESS_RULES] = JSON.stringify(rules);
+    return createService().check({ projectPath, username });
+  };
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    environmentVars = {};
+    logger = { info: mock(), warn: mock(), error: mock() };
+  });
+
+  describe("Glob patterns", () => {
+    test("matches a single path segment with *", async () => {
+      const rules = { deny: { projects: ["acme/*-legacy"] } };
+
+      expect(await checkWith(rules, "acme/api-legacy")).toMatchObject({
+        kind: "project",
+        target: "acme/*-legacy",
+      });
+      expect(await checkWith(rules, "acme/sub/api-legacy")).toBeNull();
+    });
+
+    test("matches across segments with **", async () => {
+      const rules = { deny: { projects: ["acme/**/legacy"] } };
+
+      expect(await checkWith(rules, "acme/a/b/legacy")).not.toBeNull();
+      expect(await checkWith(rules, "acme/a/b/current")).toBeNull();
+    });
+
+    test("includes the group itself with /**", async () => {
+      const rules = { deny: { groups: ["acme/**"] } };
+
+      expect(await checkWith(rules, "acme/api")).not.toBeNull();
+      expect(await checkWith(rules, "acme/platform/api")).not.toBeNull();
+      expect(await checkWith(rules, "acme-labs/api")).toBeNull();
+    });
+
+    test("matches groups at any level above the project", async () => {
+      const rules = { deny: { groups: ["acme/platform"] } };
+
+      expect(await checkWith(rules, "acme/platform/team/api")).toMatchObject({
+        kind: "group",
+      });
+      expect(await checkWith(rules, "acme/platform")).toBeNull();
+    });
+
+    test("ignores case and treats other characters literally", async () => {
+      expect(
+        await checkWith({ deny: { projects: ["Acme/API"] } }, "acme/api"),
+      ).not.toBeNull();
+      expect(
+        await checkWith({ deny: { projects: ["acme/a.i"] } }, "acme/abi"),
+      ).toBeNull();
+    });
+  });
+
+  describe("Rules", () => {
+    test("allows everything without rules", async () => {
+      expect(await checkWith({}, "acme/api")).toBeNull();
+    });
+
+    test("lets deny rules take precedence over allow rules", async () => {
+      const rules = {
+        allow: { groups: ["acme/**"], usernames: ["alice"] },
+        deny: { projects: ["acme/secret"], usernames: ["ALICE"] },
+      };
+
+      expect(await checkWith(rules, "acme/secret")).toEqual({
+        rule: "deny",
+        kind: "project",
+        target: "acme/secret",
+      });
+      expect(await checkWith(rules, "acme/api")).toEqual({
+        rule: "deny",
+        kind: "username",
+        target: "ALICE",
+      });
+    });
+
+    test("combines allowed projects and groups into one allowlist", async () => {
+      const rules = {
+        allow: { groups: ["acme"], projects: ["partners/sdk"] },
+      };
+
+      expect(await checkWith(rules, "acme/api")).toBeNull();
+      expect(await checkWith(rules, "partners/sdk")).toBeNull();
+      expect(await checkWith(rules, "partners/other")).toEqual({
+        rule: "allow",
+        kind: "project",
+        target: "partners/other",
+      });
+    });
+
+    test("only allows listed users when usernames are allowlisted", async () => {
+      const rules = { allow: { usernames: ["Alice"] } };
+
+      expect(await checkWith(rules, "acme/api", "alice")).toBeNull();
+      expect(await checkWith(rules, "acme/api", "bob")).toEqual({
+        rule: "allow",
+        kind: "username",
+        target: "bob",
+      });
+    });
+
+    test("denies triggers without a username", async () => {
+      for (const rules of [{}, { deny: { usernames: ["bob"] } }]) {
+        environmentVars[EnvVar.ACCESS_RULES] = JSON.stringify(rules);
+
+        expect(
+          await createService().check({ projectPath: "acme/api" }),
+        ).toMatchObject({ kind: "username" });
+      }
+    });
+  });
+
+  describe("Rule sources", () => {
+    test("prefers stored rules over ACCESS_RULES", async () => {
+      environmentVars[EnvVar.ACCESS_RULES] = JSON.stringify({
+        deny: { usernames: ["alice"] },
+      });
+      const service = createService();
+
+      await service.setRules({ deny: { usernames: ["bob"] } });
+      expect(await service.getRules()).toMatchObject({ source: "store" });
+      expect(
+        await service.check({ projectPath: "acme/api", username: "alice" }),
+      ).toBeNull();
+
+      await service.resetRules();
+      expect(
+        await service.check({ projectPath: "acme/api", username: "alice" }),
+      ).not.toBeNull();
+    });
+
+    test("falls back to ACCESS_RULES while the store is unavailable", async () => {
+      environmentVars[EnvVar.ACCESS_RULES] = JSON.stringify({
+        deny: { usernames: ["alice"] },
+      });
+      const unavailable: IRedisAdapterFactory = {
+        create: async () => {
+          throw new Error("connect ECONNREFUSED");
+        },
+      };
+
+      const denial = await createService(unavailable).check({
+        projectPath: "acme/api",
+        username: "alice",
+      });
+
+      expect(denial).toMatchObject({ rule: "deny", kind: "username" });
+      expect(logger.warn).toHaveBeenCalled();
+    });
+
+    test("ignores invalid ACCESS_RULES", async () => {
+      environmentVars[EnvVar.ACCESS_RULES] = '{"deny": {"users": ["alice"]}}';
+
+      const service = createService();
+
+      expect(
+        await service.check({ projectPath: "acme/api", username: "alice" }),
+      ).toBeNull();
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+});
+
+describe("parseAccessRules", () => {
+  test("rejects unknown rules and lists", () => {
+    expect(() => parseAccessRules({ block: {} })).toThrow(
+      'Unknown access rule "block"',
+    );
+    expect(() => parseAccessRules({ deny: { users: [] } })).toThrow(
+      'Unknown list "deny.users"',
+    );
+  });
+
+  test("rejects lists that are not strings", () => {
+    expect(() => parseAccessRules({ allow: { projects: "acme" } })).toThrow(
+      '"allow.projects" must be a list of strings',
+    );
+    expect(() => parseAccessRules({ allow: { usernames: [1] } })).toThrow(
+      '"allow.usernames" must be a list of strings',
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { EnvVar } from "../../../src/types";
+import {
+  DeliveryStoreService,
+  getDeliveryKeys,
+} from "../../src/services/delivery-store.service";
+import type { WebhookPayload } from "../../src/types";
+import { FakeRedis, fakeRedisFactory } from "../helpers/fake-redis";
+import { notePayload } from "../helpers/orchestrator";
+
+const started = { status: "started" as const, pipelineId: 101 };
+
+describe("DeliveryStoreService", () => {
+  let redis: FakeRedis;
+  let deliveries: DeliveryStoreService;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    deliveries = new DeliveryStoreService(fakeRedisFactory(redis), {
+      get: (key: string) =>
+        key === EnvVar.WEBHOOK_IDEMPOTENCY_TTL ? "600" : undefined,
+    } as any);
+  });
+
+  test("returns the original result for a redelivery", async () => {
+    const keys = ["delivery:event:uuid-1"];
+
+    expect(await deliveries.claim(keys)).toBeNull();
+    expect(await deliveries.claim(keys)).toEqual({ state: "processing" });
+
+    await deliveries.complete(keys, started);
+
+    expect(await deliveries.claim(keys)).toEqual({
+      state: "completed",
+      result: started,
+    });
+  });
+
+  test("matches a resent note by its ID under a new event UUID", async () => {
+    await deliveries.claim(["delivery:event:uuid-1", "delivery:note:1:77"]);
+    await deliveries.complete(
+      ["delivery:event:uuid-1", "delivery:note:1:77"],
+      started,
+    );
+
+    const duplicate = await deliveries.claim([
+      "delivery:event:uuid-2",
+      "delivery:note:1:77",
+    ]);
+
+    expect(duplicate).toEqual({ state: "completed", result: started });
+    // The partial claim of the new UUID is undone
+    expect(await redis.get("delivery:event:uuid-2")).toBeNull();
+  });
+
+  test("lets a released delivery be processed again", async () => {
+    const keys = ["delivery:event:uuid-1"];
+    await deliveries.claim(keys);
+
+    await deliveries.release(keys);
+
+    expect(await deliveries.claim(keys)).toBeNull();
+  });
+});
+
+describe("getDeliveryKeys", () => {
+  test("identifies notes by event UUID and note ID", () => {
+    expect(getDeliveryKeys("uuid-1", notePayload("@claude fix"))).toEqual([
+      "delivery:event:uuid-1",
+      "delivery:note:1:77",
+    ]);
+    expect(getDeliveryKeys(undefined, notePayload("@claude fix"))).toEqual([
+      "delivery:note:1:77",
+    ]);
+  });
+
+  test("identifies other events by event UUID only", () => {
+    const payload = {
+      object_kind: "issue",
+      project: { id: 1 },
+      object_attributes: { id: 9, iid: 3 },
+    } as WebhookPayload;
+
+    expect(getDeliveryKeys("uuid-1", payload)).toEqual([
+      "delivery:event:uuid-1",
+    ]);
+    expect(getDeliveryKeys(undefined, payload)).toEqual([]);
+  });
+});
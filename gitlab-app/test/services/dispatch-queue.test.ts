@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { EnvVar } from "../../../src/types";
+import { DispatchQueueService } from "../../src/services/dispatch-queue.service";
+import type { QueuedJob } from "../../src/types";
+import { FakeRedis, fakeRedisFactory } from "../helpers/fake-redis";
+
+function queuedJob(
+  jobId: string,
+  priority: number,
+  enqueuedAt: string,
+  projectId = 1,
+): QueuedJob {
+  return {
+    jobId,
+    projectId,
+    projectPath: `acme/app-${projectId}`,
+    resourceType: "merge_request",
+    resourceId: "5",
+    authorUsername: "alice",
+    priority,
+    prompt: "",
+    triggerPhrase: "@claude",
+    branch: "feature",
+    variables: { CLAUDE_JOB_ID: jobId },
+    enqueuedAt,
+  };
+}
+
+describe("DispatchQueueService", () => {
+  let redis: FakeRedis;
+  let environmentVars: Record<string, string>;
+  let queue: DispatchQueueService;
+
+  const createQueue = () =>
+    new DispatchQueueService(fakeRedisFactory(redis), {
+      get: (key: string) => environmentVars[key],
+    } as any);
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    environmentVars = {};
+    queue = createQueue();
+  });
+
+  test("orders jobs by priority, then by age", async () => {
+    await queue.enqueue(queuedJob("developer-new", 30, "2025-01-01T10:05:00Z"));
+    await queue.enqueue(queuedJob("maintainer", 40, "2025-01-01T10:10:00Z"));
+    await queue.enqueue(queuedJob("developer-old", 30, "2025-01-01T10:00:00Z"));
+
+    expect((await queue.list()).map(({ jobId }) => jobId)).toEqual([
+      "maintainer",
+      "developer-old",
+      "developer-new",
+    ]);
+  });
+
+  test("removes jobs and skips entries whose job data is gone", async () => {
+    await queue.enqueue(queuedJob("a", 30, "2025-01-01T10:00:00Z"));
+    await queue.enqueue(queuedJob("b", 30, "2025-01-01T10:01:00Z"));
+    await queue.enqueue(queuedJob("c", 30, "2025-01-01T10:02:00Z"));
+
+    await queue.remove("a");
+    await redis.del("dispatch:job:b");
+
+    expect((await queue.list()).map(({ jobId }) => jobId)).toEqual(["c"]);
+    expect(await redis.zCard("dispatch:queue")).toBe(1);
+  });
+
+  test("enforces the global and per-project limits", async () => {
+    environmentVars[EnvVar.MAX_CONCURRENT_PIPELINES] = "3";
+    environmentVars[EnvVar.MAX_CONCURRENT_PIPELINES_PER_PROJECT] = "2";
+    queue = createQueue();
+
+    await queue.markRunning("a", 1);
+    await queue.markRunning("b", 1);
+    expect(await queue.hasCapacity(1)).toBe(false);
+    expect(await queue.hasCapacity(2)).toBe(true);
+
+    await queue.markRunning("c", 2);
+    expect(await queue.hasCapacity(2)).toBe(false);
+
+    await queue.markFinished("a", 1);
+    expect(await queue.hasCapacity(1)).toBe(true);
+  });
+
+  test("only lets one dispatcher hold the lock", async () => {
+    const token = await queue.lockDispatch();
+
+    expect(token).toBeString();
+    expect(await queue.lockDispatch()).toBeNull();
+
+    await queue.unlockDispatch(token as string);
+    expect(await queue.lockDispatch()).toBeString();
+  });
+
+  test("does not release a lock taken over by another dispatcher", async () => {
+    const staleToken = await queue.lockDispatch();
+    // The lock expired while the first dispatcher was still running
+    await redis.del("dispatch:lock");
+    const token = await queue.lockDispatch();
+
+    await queue.unlockDispatch(staleToken as string);
+
+    expect(await redis.get("dispatch:lock")).toBe(token);
+    expect(await queue.lockDispatch()).toBeNull();
+  });
+
+  test("only renews the lock while holding it", async () => {
+    const token = await queue.lockDispatch();
+
+    expect(await queue.renewDispatchLock(token as string)).toBe(true);
+
+    await redis.del("dispatch:lock");
+    const other = await queue.lockDispatch();
+
+    expect(await queue.renewDispatchLock(token as string)).toBe(false);
+    expect(await redis.get("dispatch:lock")).toBe(other);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  setSystemTime,
+  test,
+} from "bun:test";
+import { EnvVar } from "../../../src/types";
+import type { IRedisAdapterFactory } from "../../src/interfaces";
+import { HealthService } from "../../src/services/health.service";
+import { MetricsService } from "../../src/services/metrics.service";
+import { FakeRedis, fakeRedisFactory } from "../helpers/fake-redis";
+
+const unavailableRedis: IRedisAdapterFactory = {
+  create: async () => {
+    throw new Error("connect ECONNREFUSED");
+  },
+};
+
+describe("HealthService", () => {
+  let environmentVars: Record<string, string>;
+  let gitLab: any;
+  let metrics: MetricsService;
+
+  const createHealth = (redisFactory = fakeRedisFactory(new FakeRedis())) =>
+    new HealthService(
+      redisFactory,
+      gitLab,
+      { get: (key: string) => environmentVars[key] } as any,
+      metrics,
+    );
+
+  beforeEach(() => {
+    environmentVars = {
+      [EnvVar.WEBHOOK_SECRET]: "secret",
+      [EnvVar.GITLAB_TOKEN]: "token",
+    };
+    gitLab = { validateToken: mock(async () => {}) };
+    metrics = new MetricsService();
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("is ready when every check passes", async () => {
+    const report = await createHealth().checkReadiness();
+
+    expect(report).toEqual({
+      status: "ready",
+      checks: {
+        environment: { status: "ok", durationMs: expect.any(Number) },
+        redis: { status: "ok", durationMs: expect.any(Number) },
+        gitlab: { status: "ok", durationMs: expect.any(Number) },
+      },
+    });
+  });
+
+  test("names missing required environment variables", async () => {
+    delete environmentVars[EnvVar.WEBHOOK_SECRET];
+    delete environmentVars[EnvVar.GITLAB_TOKEN];
+
+    const report = await createHealth().checkReadiness();
+
+    expect(report.status).toBe("not-ready");
+    expect(report.checks.environment).toMatchObject({
+      status: "fail",
+      message: "Missing WEBHOOK_SECRET, GITLAB_TOKEN",
+    });
+  });
+
+  test("reuses the GitLab token check for a minute", async () => {
+    gitLab.validateToken.mockImplementation(async () => {
+      throw new Error("401 Unauthorized");
+    });
+    const health = createHealth();
+
+    const first = await health.checkReadiness();
+    gitLab.validateToken.mockImplementation(async () => {});
+    const cached = await health.checkReadiness();
+    setSystemTime(new Date("2026-01-01T00:01:00Z"));
+    const refreshed = await health.checkReadiness();
+
+    expect(first.checks.gitlab).toMatchObject({
+      status: "fail",
+      message: "401 Unauthorized",
+    });
+    expect(cached.status).toBe("not-ready");
+    expect(refreshed.status).toBe("ready");
+    expect(gitLab.validateToken).toHaveBeenCalledTimes(2);
+  });
+
+  test("reports Redis as up after a successful readiness check", async () => {
+    const report = await createHealth().checkReadiness();
+
+    expect(report.status).toBe("ready");
+    expect(metrics.render()).toContain("gitlab_claude_redis_up 1");
+  });
+
+  test("reports Redis as down when the readiness check cannot reach it", async () => {
+    const report = await createHealth(unavailableRedis).checkReadiness();
+
+    expect(report).toMatchObject({
+      status: "not-ready",
+      checks: { redis: { status: "fail", message: "connect ECONNREFUSED" } },
+    });
+    expect(metrics.render()).toContain("gitlab_claude_redis_up 0");
+  });
+});
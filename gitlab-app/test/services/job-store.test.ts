@@ -0,0 +1,96 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from "bun:test";
+import { JobStoreService } from "../../src/services/job-store.service";
+import type { JobRecord } from "../../src/types";
+import { FakeRedis, fakeRedisFactory } from "../helpers/fake-redis";
+
+function jobOf(
+  id: string,
+  createdAt: string,
+  overrides: Partial<JobRecord> = {},
+): JobRecord {
+  return {
+    id,
+    projectId: 1,
+    projectPath: "acme/app",
+    resourceType: "merge_request",
+    resourceId: "5",
+    authorUsername: "alice",
+    prompt: "fix the build",
+    branch: "feature",
+    pipelineId: 100,
+    status: "pending",
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  };
+}
+
+describe("JobStoreService", () => {
+  let jobs: JobStoreService;
+
+  beforeEach(() => {
+    setSystemTime(new Date("2026-01-10T00:00:00Z"));
+    jobs = new JobStoreService(fakeRedisFactory(new FakeRedis()));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("finds jobs by ID, pipeline and latest job of a resource", async () => {
+    await jobs.save(jobOf("a", "2026-01-01T00:00:00Z", { pipelineId: 101 }));
+    await jobs.save(jobOf("b", "2026-01-02T00:00:00Z", { pipelineId: 102 }));
+
+    expect((await jobs.get("a"))?.pipelineId).toBe(101);
+    expect((await jobs.findByPipeline(1, 102))?.id).toBe("b");
+    expect(await jobs.findByPipeline(2, 102)).toBeNull();
+    expect((await jobs.findLatestByResource(1, "merge_request", "5"))?.id).toBe(
+      "b",
+    );
+    expect(await jobs.get("missing")).toBeNull();
+  });
+
+  test("lists the newest jobs first, per page and per project", async () => {
+    await jobs.save(jobOf("a", "2026-01-01T00:00:00Z"));
+    await jobs.save(jobOf("b", "2026-01-03T00:00:00Z", { projectId: 2 }));
+    await jobs.save(jobOf("c", "2026-01-02T00:00:00Z"));
+
+    const ids = (list: JobRecord[]) => list.map((job) => job.id);
+    expect(ids(await jobs.list())).toEqual(["b", "c", "a"]);
+    expect(ids(await jobs.list({ limit: 1, offset: 1 }))).toEqual(["c"]);
+    expect(ids(await jobs.listByProject(1))).toEqual(["c", "a"]);
+    expect(await jobs.listByProject(3)).toEqual([]);
+  });
+
+  test("records when a job finishes", async () => {
+    await jobs.save(jobOf("a", "2026-01-01T00:00:00Z"));
+
+    const running = await jobs.updateStatus("a", "running");
+    expect(running).toMatchObject({
+      status: "running",
+      updatedAt: "2026-01-10T00:00:00.000Z",
+    });
+    expect(running?.finishedAt).toBeUndefined();
+
+    setSystemTime(new Date("2026-01-10T00:05:00Z"));
+    expect(await jobs.updateStatus("a", "success")).toMatchObject({
+      status: "success",
+      finishedAt: "2026-01-10T00:05:00.000Z",
+    });
+    expect(await jobs.updateStatus("missing", "success")).toBeNull();
+  });
+
+  test("drops expired jobs from the lists", async () => {
+    await jobs.save(jobOf("old", "2025-12-01T00:00:00Z"));
+    await jobs.save(jobOf("new", "2026-01-09T00:00:00Z"));
+
+    expect((await jobs.list()).map((job) => job.id)).toEqual(["new"]);
+  });
+});
@@ -0,0 +1,298 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  setSystemTime,
+  test,
+} from "bun:test";
+import { EnvVar } from "../../../src/types";
+import type { IRedisAdapterFactory } from "../../src/interfaces";
+import { LimiterService } from "../../src/services/limiter.service";
+import type { RateLimitSubject } from "../../src/types";
+
+const subject: RateLimitSubject = {
+  username: "alice",
+  projectId: 1,
+  projectPath: "acme/backend/app",
+  resourceId: "5",
+};
+
+const unavailableRedis: IRedisAdapterFactory = {
+  create: async () => {
+    throw new Error("connect ECONNREFUSED");
+  },
+};
+
+describe("LimiterService", () => {
+  let environmentVars: Record<string, string>;
+  let logger: any;
+  let metrics: any;
+
+  const createLimiter = (redisFactory = unavailableRedis) =>
+    new LimiterService(
+      redisFactory,
+      { get: (key: string) => environmentVars[key] } as any,
+      logger,
+      metrics,
+    );
+
+  const consumeTimes = async (limiter: LimiterService, times: number) => {
+    const results = [];
+    for (let i = 0; i < times; i++) {
+      results.push(await limiter.consume(subject));
+    }
+    return results;
+  };
+
+  beforeEach(() => {
+    setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    environmentVars = {};
+    logger = { info: mock(), warn: mock(), error: mock() };
+    metrics = { recordRateLimitHit: mock(), setRedisHealth: mock() };
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  describe("Token buckets", () => {
+    test("allows the configured number of triggers per window", async () => {
+      const limiter = createLimiter();
+
+      const results = await consumeTimes(limiter, 4);
+
+      expect(results.slice(0, 3)).toEqual([null, null, null]);
+      expect(results[3]).toMatchObject({
+        scope: "resource",
+        limit: 3,
+        window: 900,
+        retryAfter: 300,
+      });
+      expect(metrics.recordRateLimitHit).toHaveBeenCalledWith(
+        "acme/backend/app",
+        "resource",
+      );
+    });
+
+    test("refills tokens over time", async () => {
+      const limiter = createLimiter();
+      await consumeTimes(limiter, 3);
+
+      setSystemTime(new Date("2026-01-01T00:04:00Z"));
+      expect((await limiter.consume(subject))?.retryAfter).toBe(60);
+
+      setSystemTime(new Date("2026-01-01T00:05:00Z"));
+      expect(await limiter.consume(subject)).toBeNull();
+      expect(await limiter.consume(subject)).not.toBeNull();
+    });
+
+    test("allows bursts above the sustained rate", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_POLICIES] = JSON.stringify([
+        { scope: "user", limit: 1, window: 60, burst: 3 },
+      ]);
+      const limiter = createLimiter();
+
+      const results = await consumeTimes(limiter, 4);
+
+      expect(results.slice(0, 3)).toEqual([null, null, null]);
+      expect(results[3]).toMatchObject({ scope: "user", retryAfter: 60 });
+    });
+
+    test("does not spend more tokens than available on concurrent triggers", async () => {
+      const limiter = createLimiter();
+
+      const results = await Promise.all(
+        Array.from({ length: 6 }, () => limiter.consume(subject)),
+      );
+
+      expect(results.filter((result) => result === null)).toHaveLength(3);
+    });
+  });
+
+  describe("Policies", () => {
+    test("reports the most specific policy that denies the trigger", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_POLICIES] = JSON.stringify([
+        { scope: "global", limit: 1, window: 60 },
+        { scope: "user", limit: 1, window: 60 },
+      ]);
+      const limiter = createLimiter();
+
+      await limiter.consume(subject);
+
+      expect((await limiter.consume(subject))?.scope).toBe("user");
+    });
+
+    test("only takes a token when every policy allows the trigger", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_POLICIES] = JSON.stringify([
+        { scope: "user", limit: 2, window: 60 },
+        { scope: "resource", limit: 1, window: 60 },
+      ]);
+      const limiter = createLimiter();
+
+      await limiter.consume(subject);
+      await limiter.consume(subject);
+      const otherResource = await limiter.consume({
+        ...subject,
+        resourceId: "6",
+      });
+
+      expect(otherResource).toBeNull();
+    });
+
+    test("shares group buckets between projects of a group", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_POLICIES] = JSON.stringify([
+        { scope: "group", limit: 1, window: 60 },
+      ]);
+      const limiter = createLimiter();
+
+      await limiter.consume(subject);
+
+      expect(
+        await limiter.consume({
+          ...subject,
+          projectId: 2,
+          projectPath: "acme/backend/api",
+        }),
+      ).toMatchObject({ scope: "group" });
+      expect(
+        await limiter.consume({
+          ...subject,
+          projectId: 3,
+          projectPath: "acme/frontend/web",
+        }),
+      ).toBeNull();
+    });
+
+    test("ignores invalid policies", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_POLICIES] = JSON.stringify([
+        { scope: "team", limit: 1, window: 60 },
+        { scope: "user", limit: 0, window: 60 },
+      ]);
+      environmentVars[EnvVar.RATE_LIMIT_MAX] = "1";
+      const limiter = createLimiter();
+
+      const results = await consumeTimes(limiter, 2);
+
+      expect(results[1]).toMatchObject({ scope: "resource", limit: 1 });
+    });
+
+    test("never limits allowlisted users", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_MAX] = "1";
+      environmentVars[EnvVar.RATE_LIMIT_ALLOWLIST] = "bot, alice";
+      const limiter = createLimiter();
+
+      expect(await consumeTimes(limiter, 3)).toEqual([null, null, null]);
+    });
+  });
+
+  describe("Redis", () => {
+    test("takes tokens with a single script call", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_POLICIES] = JSON.stringify([
+        { scope: "user", limit: 10, window: 60, burst: 20 },
+        { scope: "project", limit: 100, window: 3600 },
+      ]);
+      const redis: any = { eval: mock(async () => null) };
+      const limiter = createLimiter({ create: async () => redis });
+
+      expect(await limiter.consume(subject)).toBeNull();
+
+      const [, keys, args] = redis.eval.mock.calls[0];
+      expect(keys).toEqual([
+        "ratelimit:user:60:alice",
+        "ratelimit:project:3600:1",
+      ]);
+      expect(args).toEqual([
+        "20",
+        String(10 / 60),
+        "120",
+        "100",
+        String(100 / 3600),
+        "3600",
+      ]);
+      expect(limiter.getStatus()).toMatchObject({
+        backend: "redis",
+        degraded: false,
+      });
+    });
+
+    test("maps the empty bucket reported by the script to a denial", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_POLICIES] = JSON.stringify([
+        { scope: "user", limit: 10, window: 60 },
+        { scope: "project", limit: 100, window: 3600 },
+      ]);
+      const redis: any = { eval: mock(async () => [2, "0.5"]) };
+      const limiter = createLimiter({ create: async () => redis });
+
+      expect(await limiter.consume(subject)).toEqual({
+        scope: "project",
+        limit: 100,
+        window: 3600,
+        retryAfter: 18,
+        resetAt: "2026-01-01T00:00:18.000Z",
+      });
+    });
+  });
+
+  describe("Failure modes", () => {
+    test("falls back to memory by default", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_MAX] = "1";
+      const limiter = createLimiter();
+
+      const results = await consumeTimes(limiter, 2);
+
+      expect(results[0]).toBeNull();
+      expect(results[1]).toMatchObject({ scope: "resource" });
+      expect(limiter.getStatus()).toMatchObject({
+        backend: "memory",
+        degraded: true,
+        failureMode: "memory",
+      });
+      expect(logger.error).toHaveBeenCalledTimes(1);
+    });
+
+    test("allows all triggers when failing open", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_MAX] = "1";
+      environmentVars[EnvVar.RATE_LIMIT_FAILURE_MODE] = "open";
+      const limiter = createLimiter();
+
+      expect(await consumeTimes(limiter, 2)).toEqual([null, null]);
+      expect(limiter.getStatus().backend).toBe("none");
+    });
+
+    test("denies all triggers when failing closed", async () => {
+      environmentVars[EnvVar.RATE_LIMIT_FAILURE_MODE] = "closed";
+      const limiter = createLimiter();
+
+      expect(await limiter.consume(subject)).toMatchObject({
+        unavailable: true,
+        retryAfter: 60,
+      });
+      expect(metrics.recordRateLimitHit).not.toHaveBeenCalled();
+    });
+
+    test("recovers once Redis is available again", async () => {
+      let available = false;
+      const redis: any = { eval: mock(async () => null) };
+      const limiter = createLimiter({
+        create: async () => {
+          if (!available) {
+            throw new Error("connect ECONNREFUSED");
+          }
+          return redis;
+        },
+      });
+
+      await limiter.consume(subject);
+      available = true;
+      await limiter.consume(subject);
+
+      expect(limiter.getStatus()).toMatchObject({
+        backend: "redis",
+        degraded: false,
+      });
+      expect(logger.info).toHaveBeenCalled();
+    });
+  });
+});
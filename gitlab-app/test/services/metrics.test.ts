@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+import { MetricsService } from "../../src/services/metrics.service";
+
+describe("MetricsService", () => {
+  test("renders counters per label combination", () => {
+    const metrics = new MetricsService();
+
+    metrics.recordWebhook("Note Hook", "started");
+    metrics.recordWebhook("Note Hook", "started");
+    metrics.recordWebhook("Issue Hook", "ignored");
+    metrics.recordRateLimitHit('acme/"app"', "user");
+
+    const output = metrics.render();
+    expect(output).toContain(
+      [
+        "# HELP gitlab_claude_webhooks_total Webhooks received by event type and processing result",
+        "# TYPE gitlab_claude_webhooks_total counter",
+        'gitlab_claude_webhooks_total{event="Note Hook",status="started"} 2',
+        'gitlab_claude_webhooks_total{event="Issue Hook",status="ignored"} 1',
+      ].join("\n"),
+    );
+    expect(output).toContain(
+      'gitlab_claude_rate_limit_hits_total{project="acme/\\"app\\"",scope="user"} 1',
+    );
+    expect(output).toEndWith("\n");
+  });
+
+  test("renders trigger latency as cumulative buckets", () => {
+    const metrics = new MetricsService();
+
+    metrics.observeTriggerLatency(0.2);
+    metrics.observeTriggerLatency(3);
+
+    expect(metrics.render()).toContain(
+      [
+        "# TYPE gitlab_claude_pipeline_trigger_duration_seconds histogram",
+        'gitlab_claude_pipeline_trigger_duration_seconds_bucket{le="0.1"} 0',
+        'gitlab_claude_pipeline_trigger_duration_seconds_bucket{le="0.25"} 1',
+        'gitlab_claude_pipeline_trigger_duration_seconds_bucket{le="0.5"} 1',
+        'gitlab_claude_pipeline_trigger_duration_seconds_bucket{le="1"} 1',
+        'gitlab_claude_pipeline_trigger_duration_seconds_bucket{le="2.5"} 1',
+        'gitlab_claude_pipeline_trigger_duration_seconds_bucket{le="5"} 2',
+        'gitlab_claude_pipeline_trigger_duration_seconds_bucket{le="10"} 2',
+        'gitlab_claude_pipeline_trigger_duration_seconds_bucket{le="+Inf"} 2',
+        "gitlab_claude_pipeline_trigger_duration_seconds_sum 3.2",
+        "gitlab_claude_pipeline_trigger_duration_seconds_count 2",
+      ].join("\n"),
+    );
+  });
+
+  test("reports the last known Redis health", () => {
+    const metrics = new MetricsService();
+
+    expect(metrics.render()).not.toContain("\ngitlab_claude_redis_up ");
+
+    metrics.setRedisHealth(true);
+    metrics.setRedisHealth(false);
+
+    expect(metrics.render()).toContain("\ngitlab_claude_redis_up 0\n");
+  });
+});
@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { EnvVar } from "../../../src/types";
+import { NotificationDispatcher } from "../../src/services/notification.dispatcher";
+import type { NotificationEvent } from "../../src/types";
+
+describe("NotificationDispatcher", () => {
+  let environmentVars: Record<string, string>;
+  let logger: any;
+  let httpClient: any;
+
+  const event: NotificationEvent = {
+    type: "failed",
+    projectId: 1,
+    projectPath: "acme/platform",
+    authorUsername: "alice",
+    resourceType: "merge_request",
+    resourceId: "5",
+    gitlabUrl: "https://gitlab.com/acme/platform/-/merge_requests/5",
+  };
+
+  const createDispatcher = (config: unknown) => {
+    environmentVars[EnvVar.NOTIFICATIONS_CONFIG] = JSON.stringify(config);
+    return new NotificationDispatcher(
+      logger,
+      { get: (key: string) => environmentVars[key] } as any,
+      httpClient,
+    );
+  };
+
+  const sentTo = () =>
+    httpClient.fetch.mock.calls.map(([url]: [string]) => url).sort();
+
+  beforeEach(() => {
+    environmentVars = {};
+    logger = {
+      info: mock(() => {}),
+      warn: mock(() => {}),
+      error: mock(() => {}),
+      debug: mock(() => {}),
+    };
+    httpClient = {
+      fetch: mock(async () => new Response("ok")),
+    };
+  });
+
+  test("routes events to the notifiers of matching projects", () => {
+    createDispatcher({
+      default: [{ type: "slack", url: "https://default.example.com" }],
+      routes: [
+        {
+          projects: ["acme"],
+          notifiers: [{ type: "webhook", url: "https://acme.example.com" }],
+        },
+      ],
+    }).dispatch(event);
+
+    expect(sentTo()).toEqual(["https://acme.example.com"]);
+  });
+
+  test("drops invalid notifiers and keeps the valid ones", () => {
+    createDispatcher({
+      default: [
+        { type: "pager", url: "https://pager.example.com" },
+        { type: "slack" },
+        { type: "teams", url: "https://teams.example.com", events: ["boom"] },
+        { type: "discord", url: "https://discord.example.com" },
+      ],
+    }).dispatch(event);
+
+    expect(sentTo()).toEqual(["https://discord.example.com"]);
+    expect(logger.warn).toHaveBeenCalledTimes(3);
+  });
+
+  test("drops malformed routes", () => {
+    createDispatcher({
+      default: [{ type: "slack", url: "https://default.example.com" }],
+      routes: [
+        { projects: "acme", notifiers: [] },
+        null,
+        {
+          projects: ["acme/platform"],
+          notifiers: { type: "slack", url: "https://x.example.com" },
+        },
+      ],
+    }).dispatch(event);
+
+    expect(sentTo()).toEqual(["https://default.example.com"]);
+    expect(logger.warn).toHaveBeenCalledTimes(3);
+  });
+
+  test("never throws to the caller", () => {
+    const dispatcher = createDispatcher({
+      default: [{ type: "slack", url: "https://default.example.com" }],
+      routes: [{ projects: ["acme"], notifiers: [] }],
+    });
+    httpClient.fetch.mockImplementation(() => {
+      throw new Error("socket closed");
+    });
+
+    expect(() => dispatcher.dispatch(event)).not.toThrow();
+    expect(() =>
+      dispatcher.dispatch({ ...event, projectPath: undefined } as any),
+    ).not.toThrow();
+    expect(logger.error).toHaveBeenCalledWith(
+      "Error dispatching notification",
+      expect.anything(),
+    );
+  });
+});
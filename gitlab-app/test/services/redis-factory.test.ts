@@ -0,0 +1,65 @@
+import { describe, expect, mock, test } from "bun:test";
+import { EnvVar } from "../../../src/types";
+import { DeliveryStoreService } from "../../src/services/delivery-store.service";
+import { LimiterService } from "../../src/services/limiter.service";
+import { RedisAdapterFactory } from "../../src/services/redis.factory";
+
+describe("RedisAdapterFactory", () => {
+  // Nothing listens on port 1, connections are refused right away
+  const environment: any = {
+    get: mock((key: string) =>
+      key === EnvVar.REDIS_URL ? "redis://127.0.0.1:1" : undefined,
+    ),
+  };
+  const logger: any = {
+    info: mock(() => {}),
+    warn: mock(() => {}),
+    error: mock(() => {}),
+    debug: mock(() => {}),
+  };
+  const metrics: any = {
+    recordRateLimitHit: mock(() => {}),
+    setRedisHealth: mock(() => {}),
+  };
+
+  test("rejects when Redis is unreachable instead of reconnecting", async () => {
+    const factory = new RedisAdapterFactory(environment);
+
+    await expect(factory.create()).rejects.toThrow();
+    // The next call tries again rather than keeping the failure
+    await expect(factory.create()).rejects.toThrow();
+  });
+
+  test("lets the limiter fall back to memory", async () => {
+    const limiter = new LimiterService(
+      new RedisAdapterFactory(environment),
+      environment,
+      logger,
+      metrics,
+    );
+    const subject = {
+      username: "alice",
+      projectId: 1,
+      projectPath: "group/project",
+      resourceId: "5",
+    };
+
+    for (let i = 0; i < 3; i++) {
+      expect(await limiter.consume(subject)).toBeNull();
+    }
+    expect((await limiter.consume(subject))?.scope).toBe("resource");
+    expect(limiter.getStatus()).toMatchObject({
+      backend: "memory",
+      degraded: true,
+    });
+  });
+
+  test("lets delivery claims fail so the delivery is processed", async () => {
+    const deliveryStore = new DeliveryStoreService(
+      new RedisAdapterFactory(environment),
+      environment,
+    );
+
+    await expect(deliveryStore.claim(["delivery:event:abc"])).rejects.toThrow();
+  });
+});
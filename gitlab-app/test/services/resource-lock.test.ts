@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { ResourceLockService } from "../../src/services/resource-lock.service";
+import type { ResourceLock } from "../../src/types";
+import { FakeRedis, fakeRedisFactory } from "../helpers/fake-redis";
+
+function lockOf(jobId: string, pipelineId?: number): ResourceLock {
+  return {
+    jobId,
+    authorUsername: "alice",
+    acquiredAt: "2026-01-01T00:00:00.000Z",
+    pipelineId,
+  };
+}
+
+describe("ResourceLockService", () => {
+  let redis: FakeRedis;
+  let locks: ResourceLockService;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    locks = new ResourceLockService(fakeRedisFactory(redis), {
+      get: () => undefined,
+    } as any);
+  });
+
+  test("returns the holder when the resource is locked", async () => {
+    expect(await locks.acquire(1, "merge_request:5", lockOf("a"))).toBeNull();
+    expect(await locks.acquire(1, "merge_request:5", lockOf("b"))).toEqual(
+      lockOf("a"),
+    );
+    expect(await locks.acquire(2, "merge_request:5", lockOf("b"))).toBeNull();
+  });
+
+  test("takes a lock released while reading its holder", async () => {
+    await locks.acquire(1, "issue:3", lockOf("a"));
+    const get = redis.get.bind(redis);
+    let released = false;
+    redis.get = async (key: string) => {
+      if (!released) {
+        released = true;
+        await redis.del(key);
+      }
+      return get(key);
+    };
+
+    expect(await locks.acquire(1, "issue:3", lockOf("b"))).toBeNull();
+    redis.get = get;
+    expect(await locks.get(1, "issue:3")).toEqual(lockOf("b"));
+  });
+
+  test("only updates and releases the lock of the same job", async () => {
+    await locks.acquire(1, "issue:3", lockOf("a"));
+
+    await locks.update(1, "issue:3", lockOf("b", 42));
+    expect(await locks.release(1, "issue:3", "b")).toBe(false);
+    expect(await locks.get(1, "issue:3")).toEqual(lockOf("a"));
+
+    await locks.update(1, "issue:3", lockOf("a", 42));
+    expect((await locks.get(1, "issue:3"))?.pipelineId).toBe(42);
+    expect(await locks.release(1, "issue:3", "a")).toBe(true);
+    expect(await locks.get(1, "issue:3")).toBeNull();
+  });
+
+  test("leaves a lock taken over by another job after reading it", async () => {
+    await locks.acquire(1, "issue:3", lockOf("a"));
+    const get = redis.get.bind(redis);
+    // The lock expires and job b takes it right after job a read it
+    const takeOver = async (key: string) => {
+      const value = await get(key);
+      await redis.set(key, JSON.stringify(lockOf("b")), 60);
+      return value;
+    };
+
+    redis.get = takeOver;
+    expect(await locks.release(1, "issue:3", "a")).toBe(false);
+    await locks.update(1, "issue:3", lockOf("a", 42));
+    redis.get = get;
+
+    expect(await locks.get(1, "issue:3")).toEqual(lockOf("b"));
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  setSystemTime,
+  test,
+} from "bun:test";
+import { createHmac } from "node:crypto";
+import { verifyWebhookSignature } from "../../src/services/signature.verifier";
+import type { WebhookSignature } from "../../src/types";
+
+const SECRET_KEY = Buffer.from("signing-key-of-32-bytes-for-test");
+const SECRET = `whsec_${SECRET_KEY.toString("base64")}`;
+const BODY = '{"object_kind":"note"}';
+// 2026-01-01T00:00:00Z
+const NOW = 1767225600;
+
+function sign(
+  body: string,
+  timestamp = String(NOW),
+  key: Buffer | string = SECRET_KEY,
+): string {
+  return createHmac("sha256", key)
+    .update(`msg_1.${timestamp}.${body}`)
+    .digest("base64");
+}
+
+function signature(
+  signatures: string,
+  timestamp = String(NOW),
+): WebhookSignature {
+  return { id: "msg_1", timestamp, signatures };
+}
+
+describe("verifyWebhookSignature", () => {
+  beforeEach(() => {
+    setSystemTime(new Date(NOW * 1000));
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("accepts a valid signature", () => {
+    expect(
+      verifyWebhookSignature(SECRET, signature(`v1,${sign(BODY)}`), BODY, 300),
+    ).toBeNull();
+  });
+
+  test("accepts secrets without the whsec_ prefix as raw keys", () => {
+    expect(
+      verifyWebhookSignature(
+        "plain-secret",
+        signature(`v1,${sign(BODY, String(NOW), "plain-secret")}`),
+        BODY,
+        300,
+      ),
+    ).toBeNull();
+  });
+
+  test("rejects a tampered body", () => {
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        signature(`v1,${sign(BODY)}`),
+        '{"object_kind":"issue"}',
+        300,
+      ),
+    ).toBe("invalid signature");
+  });
+
+  test("rejects a signature made with another secret", () => {
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        signature(`v1,${sign(BODY, String(NOW), "other-secret")}`),
+        BODY,
+        300,
+      ),
+    ).toBe("invalid signature");
+  });
+
+  test("rejects timestamps outside the tolerance", () => {
+    for (const timestamp of [String(NOW - 301), String(NOW + 301)]) {
+      expect(
+        verifyWebhookSignature(
+          SECRET,
+          signature(`v1,${sign(BODY, timestamp)}`, timestamp),
+          BODY,
+          300,
+        ),
+      ).toBe("signature timestamp outside the replay window");
+    }
+
+    const timestamp = String(NOW - 300);
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        signature(`v1,${sign(BODY, timestamp)}`, timestamp),
+        BODY,
+        300,
+      ),
+    ).toBeNull();
+  });
+
+  test("accepts any of several signatures", () => {
+    const stale = sign(BODY, String(NOW), "previous-secret");
+
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        signature(`v1,${stale} v1,${sign(BODY)}`),
+        BODY,
+        300,
+      ),
+    ).toBeNull();
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        signature(`v1,${stale} v1,${stale}`),
+        BODY,
+        300,
+      ),
+    ).toBe("invalid signature");
+  });
+
+  test("rejects malformed headers", () => {
+    expect(verifyWebhookSignature(SECRET, { id: "msg_1" }, BODY, 300)).toBe(
+      "missing signature headers",
+    );
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        signature(`v1,${sign(BODY)}`, "yesterday"),
+        BODY,
+        300,
+      ),
+    ).toBe("invalid signature timestamp");
+
+    for (const signatures of [
+      sign(BODY),
+      `v2,${sign(BODY)}`,
+      "v1,",
+      "v1,not base64!",
+    ]) {
+      expect(
+        verifyWebhookSignature(SECRET, signature(signatures), BODY, 300),
+      ).toBe("invalid signature");
+    }
+  });
+});
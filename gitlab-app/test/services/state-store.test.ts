@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { EnvVar } from "../../../src/types";
+import { StateStoreService } from "../../src/services/state-store.service";
+import { FakeRedis, fakeRedisFactory } from "../helpers/fake-redis";
+
+describe("StateStoreService", () => {
+  let redis: FakeRedis;
+  let environmentVars: Record<string, string>;
+
+  const createStore = () =>
+    new StateStoreService(fakeRedisFactory(redis), {
+      get: (key: string) => environmentVars[key],
+    } as any);
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    environmentVars = {};
+  });
+
+  test("uses CLAUDE_DISABLED until the global switch is stored", async () => {
+    environmentVars[EnvVar.CLAUDE_DISABLED] = "true";
+    const store = createStore();
+
+    expect(await store.getState()).toMatchObject({
+      globalDisabled: true,
+      globalSource: "environment",
+    });
+
+    await store.setGlobalEnabled(true);
+
+    expect(await store.getState()).toMatchObject({
+      globalDisabled: false,
+      globalSource: "store",
+    });
+    expect(await store.getDisabledScope(1, "acme/app")).toBeNull();
+  });
+
+  test("shares the switches between instances", async () => {
+    await createStore().setGlobalEnabled(false);
+
+    expect(await createStore().getDisabledScope(1, "acme/app")).toEqual({
+      scope: "global",
+    });
+  });
+
+  test("lists disabled projects and groups", async () => {
+    const store = createStore();
+
+    await store.setProjectEnabled(12, false);
+    await store.setProjectEnabled(3, false);
+    await store.setGroupEnabled("acme/platform", false);
+    await store.setGroupEnabled("acme", false);
+    await store.setGroupEnabled("acme", true);
+
+    expect(await store.getState()).toEqual({
+      globalDisabled: false,
+      globalSource: "environment",
+      disabledProjects: [3, 12],
+      disabledGroups: ["acme/platform"],
+    });
+  });
+
+  test("names the scope that disables a project", async () => {
+    const store = createStore();
+    await store.setProjectEnabled(1, false);
+    await store.setGroupEnabled("acme/platform", false);
+
+    expect(await store.getDisabledScope(1, "acme/app")).toEqual({
+      scope: "project",
+      target: "acme/app",
+    });
+    expect(await store.getDisabledScope(2, "acme/platform/team/api")).toEqual({
+      scope: "group",
+      target: "acme/platform",
+    });
+    expect(await store.getDisabledScope(2, "acme/platform-legacy")).toBeNull();
+  });
+});
@@ -0,0 +1,1396 @@
+import { describe, expect, test } from "bun:test";
+import { EnvVar } from "../../src/types";
+import { BOT_NOTE_MARKER } from "../../src/validation/bot-note";
+import type { WebhookPayload } from "../src/types";
+import {
+  createOrchestrator,
+  authorized,
+  credentials,
+  notePayload,
+} from "./helpers/orchestrator";
+
+function pipelinePayload(pipelineId: number, status: string): WebhookPayload {
+  return {
+    object_kind: "pipeline",
+    project: { id: 1, path_with_namespace: "acme/app", web_url: "" },
+    object_attributes: { id: pipelineId, status },
+  } as WebhookPayload;
+}
+
+function mergeRequestUpdate(
+  changes: WebhookPayload["changes"],
+): WebhookPayload {
+  return {
+    object_kind: "merge_request",
+    project: {
+      id: 1,
+      path_with_namespace: "acme/app",
+      web_url: "https://gitlab.com/acme/app",
+    },
+    user: { id: 7, username: "alice", name: "Alice" },
+    object_attributes: {
+      iid: 5,
+      action: "update",
+      title: "Feature",
+      source_branch: "feature",
+    },
+    changes,
+  } as WebhookPayload;
+}
+
+function issueEvent(
+  action: string,
+  description: string,
+  changes?: WebhookPayload["changes"],
+): WebhookPayload {
+  return {
+    object_kind: "issue",
+    project: {
+      id: 1,
+      path_with_namespace: "acme/app",
+      web_url: "https://gitlab.com/acme/app",
+    },
+    user: { id: 7, username: "alice", name: "Alice" },
+    object_attributes: {
+      iid: 3,
+      action,
+      title: "Login fails",
+      description,
+    },
+    changes,
+  } as WebhookPayload;
+}
+
+function reaction(noteId = 77): WebhookPayload {
+  return {
+    object_kind: "emoji",
+    event_type: "award",
+    project: {
+      id: 1,
+      path_with_namespace: "acme/app",
+      web_url: "https://gitlab.com/acme/app",
+    },
+    user: { id: 7, username: "alice", name: "Alice" },
+    object_attributes: {
+      id: 3,
+      name: "robot",
+      awardable_type: "Note",
+      awardable_id: noteId,
+      action: "award",
+    },
+    note: {
+      id: noteId,
+      note: "",
+      noteable_type: "MergeRequest",
+      discussion_id: "discussion-1",
+    },
+    merge_request: { iid: 5, source_branch: "feature", title: "Feature" },
+  } as WebhookPayload;
+}
+
+const labels = (...titles: string[]) =>
+  titles.map((title, id) => ({ id, title }));
+
+const users = (...usernames: string[]) =>
+  usernames.map((username, id) => ({ id, username, name: username }));
+
+describe("WebhookOrchestrator", () => {
+  describe("Authentication", () => {
+    const payload = notePayload("@claude fix the build");
+
+    test("accepts the global secret for unregistered projects", async () => {
+      const { orchestrator } = createOrchestrator();
+
+      expect(await orchestrator.authenticate(credentials, payload)).toEqual({
+        authorized: true,
+        registration: null,
+      });
+      expect(
+        await orchestrator.authenticate(
+          { ...credentials, token: "wrong" },
+          payload,
+        ),
+      ).toEqual({
+        authorized: false,
+        reason: "invalid token",
+        errorCode: 401,
+      });
+    });
+
+    test("only accepts the secret of registered projects", async () => {
+      const { orchestrator, registry } = createOrchestrator();
+      const registration = { webhookSecret: "project-secret" };
+      registry.resolve.mockImplementation(async () => registration);
+
+      expect(
+        (await orchestrator.authenticate(credentials, payload)).authorized,
+      ).toBe(false);
+      expect(
+        await orchestrator.authenticate(
+          { ...credentials, token: "project-secret" },
+          payload,
+        ),
+      ).toEqual({ authorized: true, registration: registration as any });
+    });
+
+    test("rejects deliveries while the registry is unavailable", async () => {
+      const { orchestrator, registry, pipelines } = createOrchestrator();
+      registry.resolve.mockImplementation(async () => {
+        throw new Error("connect ECONNREFUSED");
+      });
+
+      const authentication = await orchestrator.authenticate(
+        credentials,
+        payload,
+      );
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authentication,
+        payload,
+      );
+
+      expect(authentication).toMatchObject({
+        authorized: false,
+        errorCode: 503,
+      });
+      expect(result).toMatchObject({ status: "error", errorCode: 503 });
+      expect(pipelines).toHaveLength(0);
+    });
+  });
+
+  describe("Metrics", () => {
+    test("counts webhooks by event and result", async () => {
+      const { orchestrator, metrics } = createOrchestrator();
+
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("Looks good"),
+      );
+      await orchestrator.processWebhook(
+        "Push Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      const output = metrics.render();
+      expect(output).toContain(
+        'gitlab_claude_webhooks_total{event="Note Hook",status="started"} 1',
+      );
+      expect(output).toContain(
+        'gitlab_claude_webhooks_total{event="Note Hook",status="ignored"} 1',
+      );
+      expect(output).toContain(
+        'gitlab_claude_webhooks_total{event="other",status="ignored"} 1',
+      );
+      expect(output).toContain(
+        "gitlab_claude_pipeline_trigger_duration_seconds_count 1",
+      );
+    });
+
+    test("counts failed GitLab API calls by operation", async () => {
+      const { orchestrator, gitLab, httpClient, metrics } =
+        createOrchestrator();
+      gitLab.createMergeRequestDiscussionNote.mockImplementation(async () => {
+        throw new Error("500 Internal Server Error");
+      });
+      httpClient.fetch.mockImplementation(
+        async () => new Response("{}", { status: 500 }),
+      );
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      expect(result.status).toBe("error");
+      const output = metrics.render();
+      expect(output).toContain(
+        'gitlab_claude_gitlab_api_errors_total{operation="create_pipeline"} 1',
+      );
+      expect(output).toContain(
+        'gitlab_claude_webhooks_total{event="Note Hook",status="error"} 1',
+      );
+    });
+  });
+
+  describe("Kill switch", () => {
+    test("does not start runs in a disabled project", async () => {
+      const { orchestrator, stateStore, gitLab, pipelines } =
+        createOrchestrator();
+      await stateStore.setProjectEnabled(1, false);
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      expect(result).toEqual({
+        status: "disabled",
+        message: "disabled for project acme/app",
+        scope: "project",
+      });
+      expect(pipelines).toHaveLength(0);
+      expect(
+        gitLab.createMergeRequestDiscussionNote.mock.calls[0]?.[0].body,
+      ).toContain("Claude is disabled for project acme/app");
+
+      await stateStore.setProjectEnabled(1, true);
+      expect(
+        (
+          await orchestrator.processWebhook(
+            "Note Hook",
+            authorized,
+            notePayload("@claude fix the build"),
+          )
+        ).status,
+      ).toBe("started");
+    });
+
+    test("falls back to CLAUDE_DISABLED while the state store is unavailable", async () => {
+      const { orchestrator, stateStore, pipelines } = createOrchestrator({
+        [EnvVar.CLAUDE_DISABLED]: "true",
+      });
+      stateStore.getDisabledScope = async () => {
+        throw new Error("connect ECONNREFUSED");
+      };
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      expect(result).toMatchObject({ status: "disabled", scope: "global" });
+      expect(pipelines).toHaveLength(0);
+    });
+  });
+
+  describe("Job registry", () => {
+    test("registers the job of a started trigger", async () => {
+      const { orchestrator, jobStore, pipelines } = createOrchestrator();
+
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude review --model opus check the retries"),
+      );
+
+      const [job] = await jobStore.listByProject(1);
+      expect(job).toMatchObject({
+        id: pipelines[0]?.CLAUDE_JOB_ID,
+        projectPath: "acme/app",
+        resourceType: "merge_request",
+        resourceId: "5",
+        authorUsername: "alice",
+        prompt: "check the retries",
+        command: "review",
+        options: { model: "opus" },
+        branch: "feature",
+        pipelineId: 101,
+        status: "pending",
+      });
+    });
+
+    test("does not register triggers that were not started", async () => {
+      const { orchestrator, jobStore, httpClient } = createOrchestrator();
+      httpClient.fetch.mockImplementation(
+        async () => new Response("{}", { status: 500 }),
+      );
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      expect(result.status).toBe("error");
+      expect(await jobStore.list()).toEqual([]);
+    });
+  });
+
+  describe("Pipeline events", () => {
+    const trackingNote = {
+      id: 12,
+      body: "🤖 Claude is working on this...\n\n[View pipeline](https://gitlab.com/acme/app/-/pipelines/101)",
+    };
+
+    test("finalizes the run of a pipeline that died without reporting back", async () => {
+      const { orchestrator, gitLab, notifications, jobStore, pipelines } =
+        createOrchestrator();
+      gitLab.allMergeRequestNotes.mockImplementation(async () => [
+        { id: 11, body: "Looks good" },
+        trackingNote,
+      ]);
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      const result = await orchestrator.processWebhook(
+        "Pipeline Hook",
+        authorized,
+        pipelinePayload(101, "failed"),
+      );
+
+      expect(result).toEqual({
+        status: "processed",
+        message: "failed",
+        pipelineId: 101,
+      });
+      const [edit] = gitLab.editMergeRequestNote.mock.calls[0];
+      expect(edit).toMatchObject({ mergeRequestIid: "5", noteId: 12 });
+      expect(edit.body).toContain("❌ Claude's work failed");
+      expect(edit.body).toContain("**Pipeline failed:**");
+      expect(edit.body).not.toContain("Claude is working on this");
+      expect(notifications.dispatch).toHaveBeenLastCalledWith(
+        expect.objectContaining({ type: "failed", status: "failed" }),
+      );
+      expect(
+        await jobStore.get(pipelines[0]?.CLAUDE_JOB_ID ?? ""),
+      ).toMatchObject({ status: "failed", finishedAt: expect.any(String) });
+
+      // The merge request is free for the next trigger
+      const next = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude try again"),
+      );
+      expect(next.status).toBe("started");
+    });
+
+    test("only updates the job while the pipeline is running", async () => {
+      const { orchestrator, gitLab, notifications, jobStore, pipelines } =
+        createOrchestrator();
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+      notifications.dispatch.mockClear();
+
+      await orchestrator.processWebhook(
+        "Pipeline Hook",
+        authorized,
+        pipelinePayload(101, "running"),
+      );
+
+      expect(
+        (await jobStore.get(pipelines[0]?.CLAUDE_JOB_ID ?? ""))?.status,
+      ).toBe("running");
+      expect(gitLab.allMergeRequestNotes).not.toHaveBeenCalled();
+      expect(notifications.dispatch).not.toHaveBeenCalled();
+    });
+
+    test("adopts Claude pipelines missing from the job registry", async () => {
+      const { orchestrator, gitLab, notifications, jobStore } =
+        createOrchestrator();
+      gitLab.allIssueNotes.mockImplementation(async () => [
+        { ...trackingNote, body: trackingNote.body.replace("101", "55") },
+      ]);
+      const variables = {
+        CLAUDE_TRIGGER: "true",
+        CLAUDE_JOB_ID: "job-1",
+        CLAUDE_AUTHOR: "alice",
+        CLAUDE_RESOURCE_TYPE: "issue",
+        CLAUDE_RESOURCE_ID: "3",
+        CLAUDE_BRANCH: "claude/issue-3",
+      };
+      const payload = pipelinePayload(55, "success");
+      payload.object_attributes.variables = Object.entries(variables).map(
+        ([key, value]) => ({ key, value }),
+      );
+
+      await orchestrator.processWebhook("Pipeline Hook", authorized, payload);
+
+      expect(await jobStore.findByPipeline(1, 55)).toMatchObject({
+        id: "job-1",
+        resourceType: "issue",
+        resourceId: "3",
+        branch: "claude/issue-3",
+        status: "success",
+      });
+      expect(gitLab.editIssueNote.mock.calls[0]?.[0].body).toContain(
+        "✅ Claude's work is complete",
+      );
+      expect(notifications.dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "completed", authorUsername: "alice" }),
+      );
+    });
+
+    test("ignores pipelines not started by Claude", async () => {
+      const { orchestrator, notifications } = createOrchestrator();
+
+      const result = await orchestrator.processWebhook(
+        "Pipeline Hook",
+        authorized,
+        pipelinePayload(42, "failed"),
+      );
+
+      expect(result.status).toBe("ignored");
+      expect(notifications.dispatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Acknowledgements", () => {
+    const onIssue = (note: string) =>
+      notePayload(note, {
+        object_attributes: {
+          id: 78,
+          note,
+          noteable_type: "Issue",
+          discussion_id: "discussion-2",
+        },
+        merge_request: undefined,
+        issue: { iid: 3, title: "Login fails" },
+      } as Partial<WebhookPayload>);
+
+    test("reacts to the triggering note once the pipeline started", async () => {
+      const { orchestrator, gitLab } = createOrchestrator();
+
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        onIssue("@claude fix the login"),
+      );
+
+      expect(gitLab.awardMergeRequestNoteEmoji).toHaveBeenCalledWith({
+        projectId: "1",
+        mergeRequestIid: "5",
+        noteId: 77,
+        name: "eyes",
+      });
+      expect(gitLab.awardIssueNoteEmoji).toHaveBeenCalledWith({
+        projectId: "1",
+        issueIid: "3",
+        noteId: 78,
+        name: "eyes",
+      });
+    });
+
+    test("does not react when the pipeline could not be started", async () => {
+      const { orchestrator, gitLab, httpClient } = createOrchestrator();
+      httpClient.fetch.mockImplementation(
+        async () => new Response("{}", { status: 500 }),
+      );
+
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      expect(gitLab.awardMergeRequestNoteEmoji).not.toHaveBeenCalled();
+    });
+
+    test("starts the run even if the reaction fails", async () => {
+      const { orchestrator, gitLab } = createOrchestrator();
+      gitLab.awardMergeRequestNoteEmoji.mockImplementation(async () => {
+        throw new Error("403 Forbidden");
+      });
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      expect(result.status).toBe("started");
+    });
+
+    test("explains rejected triggers in the thread of the note", async () => {
+      const { orchestrator, gitLab, accessControl } = createOrchestrator();
+      accessControl.check.mockImplementation(async () => ({
+        rule: "deny",
+        kind: "username",
+        target: "alice",
+      }));
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        onIssue("@claude fix the login"),
+      );
+
+      expect(result.status).toBe("forbidden");
+      expect(gitLab.createIssueDiscussionNote).toHaveBeenCalledWith({
+        projectId: "1",
+        issueIid: "3",
+        discussionId: "discussion-2",
+        noteId: 78,
+        body: expect.stringContaining(
+          "@alice you are on the denylist for Claude, so your request was not started.",
+        ),
+      });
+    });
+
+    test("explains rate limits with the time to try again", async () => {
+      const { orchestrator, gitLab, limiter } = createOrchestrator();
+      limiter.consume.mockImplementation(async () => ({
+        scope: "user",
+        limit: 3,
+        window: 900,
+        retryAfter: 300,
+        resetAt: "2026-01-01T00:05:00.000Z",
+      }));
+
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      const [reply] = gitLab.createMergeRequestDiscussionNote.mock.calls[0];
+      expect(reply.body).toContain("so your request was not started");
+      expect(reply.body).toContain(
+        "Please try again after 2026-01-01 00:05 UTC.",
+      );
+    });
+
+    test("replies on the resource to triggers without a note", async () => {
+      const { orchestrator, gitLab, accessControl } = createOrchestrator();
+      accessControl.check.mockImplementation(async () => ({
+        rule: "deny",
+        kind: "project",
+        target: "acme/app",
+      }));
+
+      await orchestrator.processWebhook(
+        "Issue Hook",
+        authorized,
+        issueEvent("open", "@claude fix the login"),
+      );
+
+      expect(gitLab.createIssueDiscussionNote).not.toHaveBeenCalled();
+      expect(gitLab.createIssueNote).toHaveBeenCalledWith({
+        projectId: "1",
+        issueIid: "3",
+        body: expect.stringContaining(
+          "@alice this project is on the denylist for Claude",
+        ),
+      });
+    });
+  });
+
+  describe("Loop prevention", () => {
+    const noteBy = (username: string, note = "@claude fix the build") => ({
+      ...notePayload(note),
+      user: { id: 8, username, name: username },
+    });
+
+    test("ignores notes of the bot user and of bot accounts", async () => {
+      for (const [username, reason] of [
+        ["Claude-Bot", "bot-user"],
+        ["project_42_bot_5f3a", "bot-account"],
+        ["group_7_bot", "bot-account"],
+        ["service_account_group_7_ci", "bot-account"],
+      ]) {
+        const { orchestrator, logger, pipelines } = createOrchestrator();
+
+        const result = await orchestrator.processWebhook(
+          "Note Hook",
+          authorized,
+          noteBy(username as string),
+        );
+
+        expect(result).toEqual({
+          status: "ignored",
+          message: "loop-prevention",
+        });
+        expect(pipelines).toHaveLength(0);
+        expect(logger.warn).toHaveBeenCalledWith(
+          "Loop prevention: ignoring trigger",
+          expect.objectContaining({ reason, author: username }),
+        );
+      }
+    });
+
+    test("ignores notes carrying the bot marker", async () => {
+      const { orchestrator, pipelines } = createOrchestrator();
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload(`Mention @claude to start a run\n\n${BOT_NOTE_MARKER}`),
+      );
+
+      expect(result.message).toBe("loop-prevention");
+      expect(pipelines).toHaveLength(0);
+    });
+
+    test("marks its own replies so they never trigger a run", async () => {
+      const { orchestrator, gitLab } = createOrchestrator();
+
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude help"),
+      );
+      const [reply] = gitLab.createMergeRequestDiscussionNote.mock.calls[0];
+      // Quoting the reply with a mention still carries the marker
+      const echo = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload(`@claude ${reply.body}`),
+      );
+
+      expect(reply.body).toContain(BOT_NOTE_MARKER);
+      expect(echo.message).toBe("loop-prevention");
+    });
+
+    test("lets people with bot-like names trigger runs", async () => {
+      const { orchestrator } = createOrchestrator();
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        noteBy("robot_fan"),
+      );
+
+      expect(result.status).toBe("started");
+    });
+  });
+
+  describe("Control commands", () => {
+    const fromBob = (note: string) => ({
+      ...notePayload(note),
+      user: { id: 8, username: "bob", name: "Bob" },
+    });
+
+    const lastReply = (gitLab: any) =>
+      gitLab.createMergeRequestDiscussionNote.mock.calls.at(-1)?.[0].body;
+
+    test("stops the pipeline of the current run", async () => {
+      const { orchestrator, gitLab } = createOrchestrator();
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude stop"),
+      );
+
+      expect(result).toEqual({
+        status: "processed",
+        message: "stopped",
+        pipelineId: 101,
+      });
+      expect(gitLab.cancelPipeline).toHaveBeenCalledWith({
+        projectId: 1,
+        pipelineId: 101,
+      });
+      expect(lastReply(gitLab)).toContain(
+        "@alice stopped Claude's run in [pipeline #101](https://gitlab.com/acme/app/-/pipelines/101).",
+      );
+    });
+
+    test("removes a run from the queue before its pipeline started", async () => {
+      const { orchestrator, gitLab, dispatchQueue, redis } =
+        createOrchestrator();
+      await redis.set("dispatch:lock", "other-instance", 60);
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude stop"),
+      );
+
+      expect(result.message).toBe("stopped");
+      expect(gitLab.cancelPipeline).not.toHaveBeenCalled();
+      expect(await dispatchQueue.list()).toEqual([]);
+      expect(lastReply(gitLab)).toContain(
+        "@alice removed the queued request of @alice.",
+      );
+    });
+
+    test("only lets the requester or a maintainer control a run", async () => {
+      const { orchestrator, gitLab } = createOrchestrator();
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      for (const command of ["stop", "status"]) {
+        const result = await orchestrator.processWebhook(
+          "Note Hook",
+          authorized,
+          fromBob(`@claude ${command}`),
+        );
+
+        expect(result.status).toBe("forbidden");
+      }
+      expect(lastReply(gitLab)).toContain(
+        "@bob only @alice or a maintainer can check this run.",
+      );
+      expect(gitLab.cancelPipeline).not.toHaveBeenCalled();
+
+      gitLab.getMember.mockImplementation(async () => ({ access_level: 40 }));
+      const stopped = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        fromBob("@claude stop"),
+      );
+      expect(stopped.message).toBe("stopped");
+    });
+
+    test("reports the state of the current and the last run", async () => {
+      const { orchestrator, gitLab } = createOrchestrator();
+      const status = () =>
+        orchestrator.processWebhook(
+          "Note Hook",
+          authorized,
+          notePayload("@claude status"),
+        );
+
+      await status();
+      expect(lastReply(gitLab)).toContain(
+        "@alice Claude has not worked on this merge request yet.",
+      );
+
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+      await orchestrator.processWebhook(
+        "Pipeline Hook",
+        authorized,
+        pipelinePayload(101, "running"),
+      );
+      await status();
+      expect(lastReply(gitLab)).toContain(
+        "Claude is working on this merge request for @alice in [pipeline #101](https://gitlab.com/acme/app/-/pipelines/101). Status: **running**.",
+      );
+
+      await orchestrator.processWebhook(
+        "Pipeline Hook",
+        authorized,
+        pipelinePayload(101, "success"),
+      );
+      expect((await status()).message).toBe("status");
+      expect(lastReply(gitLab)).toContain(
+        "the last Claude run on this merge request was requested by @alice in [pipeline #101](https://gitlab.com/acme/app/-/pipelines/101). Status: **success**.",
+      );
+    });
+
+    test("retries the last request with its command and options", async () => {
+      const { orchestrator, pipelines } = createOrchestrator();
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude review --max-turns 5 focus on auth"),
+      );
+      await orchestrator.processWebhook(
+        "Pipeline Hook",
+        authorized,
+        pipelinePayload(101, "failed"),
+      );
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude retry"),
+      );
+
+      expect(result).toMatchObject({ status: "started", pipelineId: 102 });
+      expect(pipelines[1]).toMatchObject({
+        CLAUDE_COMMAND: "review",
+        MAX_TURNS: "5",
+        DIRECT_PROMPT: "focus on auth",
+      });
+      expect(pipelines[1]?.CLAUDE_JOB_ID).not.toBe(pipelines[0]?.CLAUDE_JOB_ID);
+    });
+
+    test("has nothing to stop or retry without an earlier run", async () => {
+      const { orchestrator, gitLab, pipelines } = createOrchestrator();
+
+      const stop = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude stop"),
+      );
+      const retry = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude retry"),
+      );
+
+      expect(stop).toEqual({ status: "ignored", message: "no run to stop" });
+      expect(retry).toEqual({ status: "ignored", message: "nothing to retry" });
+      expect(lastReply(gitLab)).toContain(
+        "there is no earlier Claude run on this merge request to retry.",
+      );
+      expect(pipelines).toHaveLength(0);
+    });
+  });
+
+  describe("Dispatch queue", () => {
+    const onMergeRequest = (iid: number, note = "@claude fix the build") =>
+      notePayload(note, {
+        merge_request: { iid, source_branch: `feature-${iid}` },
+      } as Partial<WebhookPayload>);
+
+    test("queues triggers beyond the limit and starts them when a slot frees", async () => {
+      const { orchestrator, pipelines } = createOrchestrator({
+        [EnvVar.MAX_CONCURRENT_PIPELINES]: "1",
+      });
+
+      const first = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        onMergeRequest(1),
+      );
+      const second = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        onMergeRequest(2),
+      );
+
+      expect(first).toMatchObject({ status: "started", pipelineId: 101 });
+      expect(second).toMatchObject({ status: "queued", position: 1 });
+
+      await orchestrator.processWebhook(
+        "Pipeline Hook",
+        authorized,
+        pipelinePayload(101, "success"),
+      );
+
+      expect(pipelines).toHaveLength(2);
+      expect(pipelines[1]?.CLAUDE_RESOURCE_ID).toBe("2");
+    });
+
+    test("starts queued jobs by priority", async () => {
+      const { orchestrator, dispatchQueue, gitLab, pipelines } =
+        createOrchestrator({ [EnvVar.MAX_CONCURRENT_PIPELINES]: "1" });
+      gitLab.getMember.mockImplementation(async ({ userId }: any) => ({
+        access_level: userId === 9 ? 40 : 30,
+      }));
+
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        onMergeRequest(1),
+      );
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        onMergeRequest(2),
+      );
+      await orchestrator.processWebhook("Note Hook", authorized, {
+        ...onMergeRequest(3),
+        user: { id: 9, username: "maintainer", name: "Maintainer" },
+      } as WebhookPayload);
+
+      expect((await dispatchQueue.list()).map((job) => job.resourceId)).toEqual(
+        ["3", "2"],
+      );
+
+      await orchestrator.processWebhook(
+        "Pipeline Hook",
+        authorized,
+        pipelinePayload(101, "success"),
+      );
+
+      expect(
+        pipelines.map((variables) => variables.CLAUDE_RESOURCE_ID),
+      ).toEqual(["1", "3"]);
+    });
+
+    test("leaves the queue to the instance holding the dispatch lock", async () => {
+      const { orchestrator, redis, pipelines } = createOrchestrator();
+      await redis.set("dispatch:lock", "other-instance", 60);
+
+      const result = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        onMergeRequest(1),
+      );
+
+      expect(result.status).toBe("queued");
+      expect(pipelines).toHaveLength(0);
+      expect(await redis.get("dispatch:lock")).toBe("other-instance");
+
+      await redis.del("dispatch:lock");
+      const outcomes = await orchestrator.dispatchQueued();
+
+      expect(outcomes).toEqual([
+        { jobId: expect.any(String), pipelineId: 101 },
+      ]);
+      expect(await redis.get("dispatch:lock")).toBeNull();
+    });
+
+    test("keeps draining after a job fails to start", async () => {
+      const { orchestrator, httpClient, dispatchQueue, redis, pipelines } =
+        createOrchestrator();
+      await redis.set("dispatch:lock", "other-instance", 60);
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        onMergeRequest(1),
+      );
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        onMergeRequest(2),
+      );
+      await redis.del("dispatch:lock");
+
+      const fetch = httpClient.fetch.getMockImplementation();
+      httpClient.fetch.mockImplementationOnce(
+        async () =>
+          new Response(JSON.stringify({ message: "forbidden" }), {
+            status: 403,
+          }),
+      );
+      httpClient.fetch.mockImplementation(fetch);
+
+      const outcomes = await orchestrator.dispatchQueued();
+
+      expect(outcomes.map((outcome) => outcome.error ?? "ok")).toEqual([
+        "forbidden",
+        "ok",
+      ]);
+      expect(pipelines).toHaveLength(1);
+      expect(await dispatchQueue.list()).toEqual([]);
+    });
+  });
+
+  describe("Queued triggers", () => {
+    test("tells the author their request is queued", async () => {
+      const { orchestrator, gitLab } = createOrchestrator({
+        [EnvVar.MAX_CONCURRENT_PIPELINES]: "1",
+      });
+
+      await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+      const queued = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the docs", {
+          merge_request: { iid: 6, source_branch: "docs" },
+        } as any),
+      );
+
+      expect(queued.status).toBe("queued");
+      const [reply] = gitLab.createMergeRequestDiscussionNote.mock.calls.at(-1);
+      expect(reply).toMatchObject({
+        mergeRequestIid: "6",
+        discussionId: "discussion-1",
+        noteId: 77,
+      });
+      expect(reply.body).toContain(
+        "@alice Claude is busy with other runs, so your request is queued at position 1.",
+      );
+    });
+
+    test("stops dispatching once the dispatch lock is lost", async () => {
+      const { orchestrator, dispatchQueue, redis, pipelines } =
+        createOrchestrator();
+      await redis.set("dispatch:lock", "other-instance", 60);
+      for (const iid of [1, 2]) {
+        await orchestrator.processWebhook(
+          "Note Hook",
+          authorized,
+          notePayload("@claude fix the build", {
+            merge_request: { iid, source_branch: `feature-${iid}` },
+          } as any),
+        );
+      }
+      await redis.del("dispatch:lock");
+
+      // The lock expires and another instance takes it during the first start
+      const renew = dispatchQueue.renewDispatchLock.bind(dispatchQueue);
+      let renewals = 0;
+      dispatchQueue.renewDispatchLock = async (token: string) => {
+        if (++renewals === 2) {
+          await redis.set("dispatch:lock", "other-instance", 60);
+        }
+        return renew(token);
+      };
+
+      const outcomes = await orchestrator.dispatchQueued();
+
+      expect(outcomes).toHaveLength(1);
+      expect(pipelines).toHaveLength(1);
+      expect(await dispatchQueue.list()).toHaveLength(1);
+      expect(await redis.get("dispatch:lock")).toBe("other-instance");
+    });
+  });
+
+  describe("Resource locks", () => {
+    const rateLimit = {
+      scope: "user",
+      limit: 3,
+      window: 900,
+      retryAfter: 300,
+      resetAt: "2026-01-01T00:05:00.000Z",
+    };
+
+    test("does not use rate limit tokens for triggers on a busy merge request", async () => {
+      const { orchestrator, limiter, gitLab } = createOrchestrator();
+
+      const first = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+      const second = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix it again"),
+      );
+
+      expect(first.status).toBe("started");
+      expect(second.status).toBe("busy");
+      expect(limiter.consume).toHaveBeenCalledTimes(1);
+      expect(
+        gitLab.createMergeRequestDiscussionNote.mock.calls.at(-1)?.[0].body,
+      ).toContain("already working on this merge request");
+    });
+
+    test("releases the lock of a rate-limited trigger", async () => {
+      const { orchestrator, limiter, pipelines } = createOrchestrator();
+      limiter.consume.mockImplementationOnce(async () => rateLimit);
+
+      const limited = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+      const retried = await orchestrator.processWebhook(
+        "Note Hook",
+        authorized,
+        notePayload("@claude fix the build"),
+      );
+
+      expect(limited.status).toBe("rate-limited");
+      expect(retried.status).toBe("started");
+      expect(pipelines).toHaveLength(1);
+    });
+  });
+
+  describe("Resource triggers", () => {
+    test("starts a run on a new branch for a mention in a new issue", async () => {
+      const { orchestrator, httpClient, pipelines } = createOrchestrator();
+
+      const result = await orchestrator.processWebhook(
+        "Issue Hook",
+        authorized,
+        issueEvent("open", "@claude please fix the login form"),
+      );
+
+      expect(result.status).toBe("started");
+      expect(pipelines[0]).toMatchObject({
+        CLAUDE_RESOURCE_TYPE: "issue",
+        CLAUDE_RESOURCE_ID: "3",
+        DIRECT_PROMPT: "please fix the login form",
+      });
+      expect(pipelines[0]?.CLAUDE_BRANCH).toStartWith(
+        "claude/issue-3-login-fails-",
+      );
+      const [url, options] = httpClient.fetch.mock.calls[0];
+      expect(url).toEndWith("/projects/1/repository/branches");
+      expect(JSON.parse(options.body)).toEqual({
+        branch: pipelines[0]?.CLAUDE_BRANCH,
+        ref: "main",
+      });
+    });
+
+    test("starts a run on the source branch for a mention in a merge request title", async () => {
+      const { orchestrator, pipelines } = createOrchestrator();
+
+      const result = await orchestrator.processWebhook(
+        "Merge Request Hook",
+        authorized,
+        {
+          ...mergeRequestUpdate(undefined),
+          object_attributes: {
+            iid: 5,
+            action: "reopen",
+            title: "@claude review",
+            source_branch: "feature",
+          },
+        } as WebhookPayload,
+      );
+
+      expect(result.status).toBe("started");
+      expect(pipelines[0]).toMatchObject({
+        CLAUDE_RESOURCE_TYPE: "merge_request",
+        CLAUDE_RESOURCE_ID: "5",
+        CLAUDE_BRANCH: "feature",
+        CLAUDE_COMMAND: "review",
+      });
+    });
+
+    test("only triggers on updates that add the mention", async () => {
+      const { orchestrator, pipelines } = createOrchestrator();
+
+      const unchanged = await orchestrator.processWebhook(
+        "Issue Hook",
+        authorized,
+        issueEvent("update", "@claude fix it, see the logs", {
+          description: {
+            previous: "@claude fix it",
+            current: "@claude fix it, see the logs",
+          },
+        }),
+      );
+      const added = await orchestrator.processWebhook(
+        "Issue Hook",
+        authorized,
+        issueEvent("update", "See the logs\n\n@claude fix it", {
+          description: {
+            previous: "See the logs",
+            current: "See the logs\n\n@claude fix it",
+          },
+        }),
+      );
+
+      expect(unchanged.status).toBe("ignored");
+      expect(added.status).toBe("started");
+      expect(pipelines).toHaveLength(1);
+    });
+
+    test("ignores other actions and resources without a mention", async () => {
+      const { orchestrator, pipelines } = createOrchestrator();
+
+      for (const payload of [
+        issueEvent("close", "@claude fix it"),
+        issueEvent("open", "The login form fails"),
+      ]) {
+        expect(
+          (await orchestrator.processWebhook("Issue Hook", authorized, payload))
+            .status,
+        ).toBe("ignored");
+      }
+      expect(pipelines).toHaveLength(0);
+    });
+  });
+
+  describe("Change triggers", () => {
+    const labelTriggers = {
+      "claude::implement": {
+        command: "fix",
+        prompt: "Implement the issue as described",
+      },
+      "claude::review": { command: "review" },
+      "claude::empty": { doneLabel: "claude::done" },
+      "claude::stop": { command: "stop" },
+    };
+
+    test("starts a run for a newly added trigger label", async () => {
+      const { orchestrator, pipelines } = createOrchestrator({
+        [EnvVar.LABEL_TRIGGERS]: JSON.stringify(labelTriggers),
+      });
+
+      const result = await orchestrator.processWebhook(
+        "Merge Request Hook",
+        authorized,
+        mergeRequestUpdate({
+          labels: {
+            previous: labels("bug"),
+            current: labels("bug", "claude::implement"),
+          },
+        }),
+      );
+
+      expect(result.status).toBe("started");
+      expect(pipelines[0]).toMatchObject({
+        CLAUDE_COMMAND: "fix",
+        CLAUDE_TRIGGER_LABEL: "claude::implement",
+        DIRECT_PROMPT: "Implement the issue as described",
+      });
+    });
+
+    test("does not trigger again for labels that were already present", async () => {
+      const { orchestrator, pipelines } = createOrchestrator({
+        [EnvVar.LABEL_TRIGGERS]: JSON.stringify(labelTriggers),
+      });
+
+      const result = await orchestrator.processWebhook(
+        "Merge Request Hook",
+        authorized,
+        mergeRequestUpdate({
+          labels: {
+            previous: labels("claude::review"),
+            current: labels("claude::review", "bug"),
+          },
+        }),
+      );
+
+      expect(result.status).toBe("ignored");
+      expect(pipelines).toHaveLength(0);
+    });
+
+    test("ignores labels without a prompt or command", async () => {
+      const { orchestrator, logger, pipelines } = createOrchestrator({
+        [EnvVar.LABEL_TRIGGERS]: JSON.stringify(labelTriggers),
+      });
+
+      for (const label of ["claude::empty", "claude::stop"]) {
+        const result = await orchestrator.processWebhook(
+          "Merge Request Hook",
+          authorized,
+          mergeRequestUpdate({
+            labels: { previous: [], current: labels(label) },
+          }),
+        );
+
+        expect(result.status).toBe("ignored");
+      }
+      expect(pipelines).toHaveLength(0);
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Ignoring label trigger without a prompt or command",
+        { label: "claude::empty" },
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        "Ignoring label trigger without a prompt or command",
+        { label: "claude::stop" },
+      );
+    });
+
+    test("starts a review when the bot is requested as reviewer", async () => {
+      const { orchestrator, pipelines } = createOrchestrator();
+
+      await orchestrator.processWebhook(
+        "Merge Request Hook",
+        authorized,
+        mergeRequestUpdate({
+          reviewers: {
+            previous: users("bob"),
+            current: users("bob", "Claude-Bot"),
+          },
+        }),
+      );
+
+      expect(pipelines[0]).toMatchObject({ CLAUDE_COMMAND: "review" });
+    });
+
+    test("starts a fix when the bot is assigned", async () => {
+      const { orchestrator, pipelines } = createOrchestrator();
+
+      await orchestrator.processWebhook(
+        "Merge Request Hook",
+        authorized,
+        mergeRequestUpdate({
+          assignees: { previous: [], current: users("claude-bot") },
+        }),
+      );
+
+      expect(pipelines[0]).toMatchObject({ CLAUDE_COMMAND: "fix" });
+    });
+
+    test("ignores bots that were already reviewer or assignee", async () => {
+      const { orchestrator, pipelines } = createOrchestrator();
+
+      const result = await orchestrator.processWebhook(
+        "Merge Request Hook",
+        authorized,
+        mergeRequestUpdate({
+          reviewers: {
+            previous: users("claude-bot"),
+            current: users("claude-bot", "bob"),
+          },
+          assignees: { previous: users("claude-bot"), current: [] },
+        }),
+      );
+
+      expect(result.status).toBe("ignored");
+      expect(pipelines).toHaveLength(0);
+    });
+  });
+
+  describe("Reaction triggers", () => {
+    const react = async (body: string) => {
+      const context = createOrchestrator({ [EnvVar.TRIGGER_EMOJI]: ":robot:" });
+      context.gitLab.showMergeRequestNote.mockImplementation(async () => ({
+        body,
+        system: false,
+      }));
+      const result = await context.orchestrator.processWebhook(
+        "Emoji Hook",
+        authorized,
+        reaction(),
+      );
+      return { ...context, result };
+    };
+
+    test("uses the command and prompt of a mention in the note", async () => {
+      const { result, pipelines } = await react(
+        "@claude review --max-turns 5 focus on auth",
+      );
+
+      expect(result.status).toBe("started");
+      expect(pipelines[0]).toMatchObject({
+        CLAUDE_COMMAND: "review",
+        MAX_TURNS: "5",
+        DIRECT_PROMPT: "focus on auth",
+      });
+    });
+
+    test("uses the whole note as the prompt without a request after the mention", async () => {
+      for (const body of ["@claude", "Please rename this helper @claude"]) {
+        const { pipelines } = await react(body);
+
+        expect(pipelines[0]?.DIRECT_PROMPT).toBe(body);
+      }
+    });
+
+    test("passes the awarded note to the pipeline as a comment", async () => {
+      const { pipelines } = await react("The retry loop never ends");
+
+      const payload = JSON.parse(pipelines[0]?.GITLAB_WEBHOOK_PAYLOAD ?? "");
+      expect(payload).toMatchObject({
+        object_kind: "note",
+        object_attributes: {
+          note: "The retry loop never ends",
+          noteable_type: "MergeRequest",
+        },
+        merge_request: { iid: 5 },
+      });
+      expect(pipelines[0]?.CLAUDE_NOTE).toBe("The retry loop never ends");
+    });
+
+    test("ignores other emoji and empty notes", async () => {
+      const { result } = await react("  ");
+      const other = createOrchestrator({ [EnvVar.TRIGGER_EMOJI]: "eyes" });
+
+      expect(result.status).toBe("ignored");
+      expect(
+        (
+          await other.orchestrator.processWebhook(
+            "Emoji Hook",
+            authorized,
+            reaction(),
+          )
+        ).status,
+      ).toBe("ignored");
+    });
+  });
+});
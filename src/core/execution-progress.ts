@@ -0,0 +1,173 @@
+/**
+ * Execution Progress
+ *
+ * Follows the JSONL output of Claude Code while it runs and renders the
+ * tracking comment with the current phase, the files touched, the number of
+ * tool calls and Claude's own todo list
+ */
+
+import { gitLabMcpToolName } from "../mcp/gitlab-tools";
+
+export const TRACKING_COMMENT_HEADER = "🤖 Claude is working on this...";
+
+// Checklist of the tracking comment, in the order Claude works through it
+export const PROGRESS_PHASES = [
+  "Setting up workspace",
+  "Analyzing request",
+  "Implementing changes",
+  "Running tests",
+] as const;
+
+export type ProgressPhase = (typeof PROGRESS_PHASES)[number];
+
+export type ProgressTodo = {
+  content: string;
+  status: "pending" | "in_progress" | "completed";
+};
+
+// Tools that change files, and the input field naming the file
+const EDIT_TOOLS: Record<string, string> = {
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  Write: "file_path",
+  NotebookEdit: "notebook_path",
+};
+
+// Claude's own report through the GitLab MCP server, kept in the comment so
+// progress updates do not overwrite it
+const CLAUDE_UPDATE_TOOL = gitLabMcpToolName("update_claude_comment");
+
+const TEST_COMMAND = /\b(test|tests|jest|vitest|pytest|rspec|phpunit)\b/;
+
+const TODO_ICONS: Record<ProgressTodo["status"], string> = {
+  completed: "✅",
+  in_progress: "🔄",
+  pending: "⬜",
+};
+
+// Files listed in the comment before the rest is summarized
+const MAX_LISTED_FILES = 10;
+
+export class ExecutionProgress {
+  private phaseIndex = 0;
+  private toolCalls = 0;
+  private files = new Set<string>();
+  private todos: ProgressTodo[] = [];
+  private claudeUpdate?: string;
+
+  /**
+   * @param workspaceDir Prefix stripped from file paths, usually the checkout
+   */
+  constructor(private workspaceDir?: string) {}
+
+  get phase(): ProgressPhase {
+    return PROGRESS_PHASES[this.phaseIndex] ?? "Setting up workspace";
+  }
+
+  /**
+   * Apply one line of the JSONL output. Lines that are not JSON, such as a
+   * line still being written, are ignored.
+   */
+  consume(line: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    if (message?.type === "system" || message?.type === "assistant") {
+      this.advance("Analyzing request");
+    }
+    if (message?.type !== "assistant" || !message.message?.content) {
+      return;
+    }
+
+    for (const content of message.message.content) {
+      if (content?.type === "tool_use") {
+        this.consumeToolUse(content.name, content.input ?? {});
+      }
+    }
+  }
+
+  /**
+   * Body of the tracking comment
+   */
+  format(jobUrl: string): string {
+    const checklist = PROGRESS_PHASES.map(
+      (phase, index) => `- [${index < this.phaseIndex ? "x" : " "}] ${phase}`,
+    );
+    const sections = [
+      `${TRACKING_COMMENT_HEADER}\n\n[View job details](${jobUrl})\n\n---\n${checklist.join("\n")}`,
+      `**Progress**\n- Current phase: ${this.phase}\n- Tool calls: ${this.toolCalls}`,
+    ];
+
+    if (this.files.size > 0) {
+      const files = [...this.files];
+      const listed = files
+        .slice(0, MAX_LISTED_FILES)
+        .map((file) => `- \`${file}\``);
+      if (files.length > MAX_LISTED_FILES) {
+        listed.push(`- …and ${files.length - MAX_LISTED_FILES} more`);
+      }
+      sections.push(`**Files touched**\n${listed.join("\n")}`);
+    }
+
+    if (this.todos.length > 0) {
+      const todos = this.todos.map(
+        (todo) => `- ${TODO_ICONS[todo.status]} ${todo.content}`,
+      );
+      sections.push(`**Todo list**\n${todos.join("\n")}`);
+    }
+
+    if (this.claudeUpdate) {
+      sections.push(`**Claude's update**\n${this.claudeUpdate}`);
+    }
+
+    return sections.join("\n\n");
+  }
+
+  private consumeToolUse(name: string, input: Record<string, any>): void {
+    this.toolCalls++;
+
+    const pathField = EDIT_TOOLS[name];
+    if (pathField && typeof input[pathField] === "string") {
+      this.files.add(this.relativePath(input[pathField]));
+      this.advance("Implementing changes");
+    }
+
+    if (
+      name === "Bash" &&
+      typeof input.command === "string" &&
+      TEST_COMMAND.test(input.command) &&
+      this.phase === "Implementing changes"
+    ) {
+      this.advance("Running tests");
+    }
+
+    if (name === "TodoWrite" && Array.isArray(input.todos)) {
+      this.todos = input.todos
+        .filter((todo: any) => typeof todo?.content === "string")
+        .map((todo: any) => ({
+          content: todo.content,
+          status: Object.keys(TODO_ICONS).includes(todo.status)
+            ? todo.status
+            : "pending",
+        }));
+    }
+
+    if (name === CLAUDE_UPDATE_TOOL && typeof input.body === "string") {
+      this.claudeUpdate = input.body.trim();
+    }
+  }
+
+  // Phases only move forward
+  private advance(phase: ProgressPhase): void {
+    this.phaseIndex = Math.max(this.phaseIndex, PROGRESS_PHASES.indexOf(phase));
+  }
+
+  private relativePath(path: string): string {
+    const prefix = this.workspaceDir?.replace(/\/?$/, "/");
+    return prefix && path.startsWith(prefix) ? path.slice(prefix.length) : path;
+  }
+}
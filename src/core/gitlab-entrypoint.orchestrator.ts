@@ -9,10 +9,39 @@ import type {
   IEnvironmentService,
   IFileSystemService,
   IGitLabService,
+  IHttpClient,
   ILoggerService,
   ITempDirectoryService,
 } from "../interfaces";
-import { EnvVar } from "../types";
+import {
+  GITLAB_MCP_SERVER_NAME,
+  GITLAB_MCP_TOOLS,
+  gitLabMcpToolName,
+} from "../mcp/gitlab-tools";
+import { type CommandResult, EnvVar } from "../types";
+import { ExecutionProgress } from "./execution-progress";
+
+// Variables the GitLab MCP server needs to reach the merge request or issue
+const MCP_SERVER_ENV_VARS = [
+  EnvVar.CI_PROJECT_ID,
+  EnvVar.CI_SERVER_URL,
+  EnvVar.GITLAB_URL,
+  EnvVar.CI_PIPELINE_URL,
+  EnvVar.CI_COMMIT_SHA,
+  EnvVar.CI_COMMIT_REF_NAME,
+  EnvVar.CI_MERGE_REQUEST_IID,
+  EnvVar.CLAUDE_RESOURCE_TYPE,
+  EnvVar.CLAUDE_RESOURCE_ID,
+  EnvVar.CLAUDE_BRANCH,
+  EnvVar.CLAUDE_CODE_GL_ACCESS_TOKEN,
+  EnvVar.CLAUDE_CODE_OAUTH_TOKEN,
+  EnvVar.INPUT_CLAUDE_CODE_OAUTH_TOKEN,
+  EnvVar.GITLAB_TOKEN,
+  EnvVar.INPUT_GITLAB_TOKEN,
+];
+
+// Default seconds between progress updates of the tracking comment
+const DEFAULT_PROGRESS_INTERVAL = 15;
 
 export type PhaseResult = {
   success: boolean;
@@ -49,6 +78,7 @@ export class GitLabEntrypointOrchestrator {
     private commandExecution: ICommandExecutionService,
     private tempDirectoryService: ITempDirectoryService,
     private gitLabService: IGitLabService,
+    private httpClient: IHttpClient,
   ) {}
 
   /**
@@ -76,7 +106,10 @@ export class GitLabEntrypointOrchestrator {
       }
 
       // Phase 2: Execute
-      executeResult = await this.runExecutePhase(context);
+      executeResult = await this.runExecutePhase(
+        context,
+        prepareResult.commentId,
+      );
 
       if (!executeResult.success) {
         exitCode = 1;
@@ -115,11 +148,43 @@ export class GitLabEntrypointOrchestrator {
           this.logger.error("Error during emergency update:", updateError);
         }
       }
+    } finally {
+      await this.releaseResourceLock();
     }
 
     return exitCode;
   }
 
+  /**
+   * Releases the webhook server's lock on the merge request or issue, so the
+   * next trigger does not have to wait for the Pipeline Hook
+   */
+  private async releaseResourceLock(): Promise<void> {
+    const releaseUrl = this.environment.get(EnvVar.CLAUDE_LOCK_RELEASE_URL);
+    if (!releaseUrl) {
+      return;
+    }
+
+    try {
+      const token = this.environment.get(EnvVar.WEBHOOK_PAYLOAD_TOKEN);
+      const response = await this.httpClient.fetch(releaseUrl, {
+        method: "DELETE",
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+
+      if (!response.ok) {
+        this.logger.warn(
+          `Failed to release resource lock: ${response.status} ${response.statusText}`,
+        );
+        return;
+      }
+
+      this.logger.info("Released resource lock");
+    } catch (error) {
+      this.logger.warn("Failed to release resource lock:", error);
+    }
+  }
+
   /**
    * Extracts pipeline context from environment variables
    */
@@ -141,7 +206,7 @@ export class GitLabEntrypointOrchestrator {
       maxTurns: this.environment.get(EnvVar.MAX_TURNS),
       claudeEnv: this.environment.get(EnvVar.CLAUDE_ENV),
       fallbackModel: this.environment.get(EnvVar.FALLBACK_MODEL),
-      anthropicApiKey: this.environment.get(EnvVar.ANTHROPIC_API_KEY),
+      anthropicApiKey: this.resolveAnthropicApiKey(),
       gitlabToken:
         this.environment.get(EnvVar.CLAUDE_CODE_GL_ACCESS_TOKEN) ||
         this.environment.get(EnvVar.CI_JOB_TOKEN),
@@ -149,6 +214,23 @@ export class GitLabEntrypointOrchestrator {
     };
   }
 
+  /**
+   * Projects registered on the webhook server may name the CI/CD variable
+   * holding their Anthropic API key in CLAUDE_ANTHROPIC_KEY_REF
+   */
+  private resolveAnthropicApiKey(): string | undefined {
+    const keyRef = this.environment.get(EnvVar.CLAUDE_ANTHROPIC_KEY_REF);
+    const referencedKey = keyRef
+      ? this.environment.get(keyRef as EnvVar)
+      : undefined;
+    if (keyRef && !referencedKey) {
+      this.logger.warn(
+        `CLAUDE_ANTHROPIC_KEY_REF names ${keyRef}, which is not set. Falling back to ANTHROPIC_API_KEY.`,
+      );
+    }
+    return referencedKey || this.environment.get(EnvVar.ANTHROPIC_API_KEY);
+  }
+
   /**
    * Phase 1: Preparation - run prepare.ts and capture results
    */
@@ -221,6 +303,7 @@ export class GitLabEntrypointOrchestrator {
    */
   private async runExecutePhase(
     context: PipelineContext,
+    commentId?: number,
   ): Promise<PhaseResult> {
     try {
       this.logger.info("=========================================");
@@ -281,11 +364,22 @@ export class GitLabEntrypointOrchestrator {
         outputPath,
       ];
 
-      // Add optional arguments if environment variables are set
+      // Give Claude the GitLab tools of the bundled MCP server. An allowlist
+      // replaces the default tools, so the GitLab tools are only added to
+      // one that is configured, otherwise they come with the defaults.
+      const mcpConfigPath = await this.writeMcpConfig(commentId);
+      args.push("--mcp-config", mcpConfigPath);
       if (context.allowedTools) {
-        args.push("--allowed-tools", context.allowedTools);
+        args.push(
+          "--allowed-tools",
+          [
+            context.allowedTools,
+            ...GITLAB_MCP_TOOLS.map(gitLabMcpToolName),
+          ].join(","),
+        );
       }
 
+      // Add optional arguments if environment variables are set
       if (context.disallowedTools) {
         args.push("--disallowed-tools", context.disallowedTools);
       }
@@ -314,11 +408,17 @@ export class GitLabEntrypointOrchestrator {
 
       this.logger.info(`Running Claude Code with args: ${args.join(" ")}`);
 
-      // Run Claude Code CLI directly
-      const executeResult = await this.commandExecution.execute(
-        args.join(" "),
-        { env },
-      );
+      // Run Claude Code CLI directly, reporting its progress in the
+      // tracking comment meanwhile
+      const progressUpdates = this.startProgressUpdates(commentId, outputPath);
+      let executeResult: CommandResult;
+      try {
+        executeResult = await this.commandExecution.execute(args.join(" "), {
+          env,
+        });
+      } finally {
+        await progressUpdates.stop();
+      }
 
       // Print output regardless of exit code
       this.logger.info(executeResult.stdout);
@@ -341,6 +441,130 @@ export class GitLabEntrypointOrchestrator {
     }
   }
 
+  /**
+   * Writes the MCP config that starts the GitLab MCP server for Claude Code,
+   * with the variables it needs since it does not inherit the job's
+   */
+  private async writeMcpConfig(commentId?: number): Promise<string> {
+    const env: Record<string, string> = {};
+    for (const name of MCP_SERVER_ENV_VARS) {
+      const value = this.environment.get(name);
+      if (value) {
+        env[name] = value;
+      }
+    }
+    // The service looks up merge requests by CI_MERGE_REQUEST_IID, which is
+    // not set for pipelines started by the webhook server
+    if (
+      !env.CI_MERGE_REQUEST_IID &&
+      env.CLAUDE_RESOURCE_TYPE === "merge_request" &&
+      env.CLAUDE_RESOURCE_ID
+    ) {
+      env.CI_MERGE_REQUEST_IID = env.CLAUDE_RESOURCE_ID;
+    }
+    if (commentId) {
+      env.CLAUDE_COMMENT_ID = String(commentId);
+    }
+
+    const config = {
+      mcpServers: {
+        [GITLAB_MCP_SERVER_NAME]: {
+          command: "bun",
+          args: [
+            "run",
+            this.fileSystem.join(
+              __dirname,
+              "../entrypoints/gitlab-mcp-server.ts",
+            ),
+          ],
+          env,
+        },
+      },
+    };
+
+    const configPath = `${this.tempDirectoryService.getClaudePromptsDirectory()}/mcp-config.json`;
+    await this.fileSystem.writeFile(
+      configPath,
+      JSON.stringify(config, null, 2),
+    );
+    this.logger.info(`Wrote MCP config to ${configPath}`);
+    return configPath;
+  }
+
+  /**
+   * Tails Claude's JSONL output while it runs and updates the tracking comment
+   * with its progress, at most once per CLAUDE_PROGRESS_INTERVAL seconds.
+   * Stopping records the last state before the update phase finalizes it.
+   */
+  private startProgressUpdates(
+    commentId: number | undefined,
+    outputPath: string,
+  ): { stop(): Promise<void> } {
+    const interval = Number(
+      this.environment.get(EnvVar.CLAUDE_PROGRESS_INTERVAL) ||
+        DEFAULT_PROGRESS_INTERVAL,
+    );
+    if (!commentId || !(interval > 0)) {
+      return { stop: async () => {} };
+    }
+
+    const progress = new ExecutionProgress(
+      this.environment.get(EnvVar.CI_PROJECT_DIR),
+    );
+    const jobUrl = this.gitLabService.getJobUrl();
+    let offset = 0;
+    // Prepare created the comment with the initial state
+    let lastBody = progress.format(jobUrl);
+
+    const update = async () => {
+      try {
+        if (!this.fileSystem.existsSync(outputPath)) {
+          return;
+        }
+
+        // Only read complete lines, the last one may still be written
+        const content = await this.fileSystem.readFile(outputPath);
+        const end = content.lastIndexOf("\n") + 1;
+        for (const line of content.slice(offset, end).split("\n")) {
+          if (line.trim()) {
+            progress.consume(line);
+          }
+        }
+        offset = Math.max(offset, end);
+
+        const body = progress.format(jobUrl);
+        if (body === lastBody) {
+          return;
+        }
+        await this.gitLabService.updateComment({
+          commentId: String(commentId),
+          body,
+        });
+        lastBody = body;
+      } catch (error) {
+        this.logger.warn("Failed to update progress in comment:", error);
+      }
+    };
+
+    // Skip ticks while the previous update is still running
+    let running: Promise<void> | undefined;
+    const tick = () => {
+      running ??= update().finally(() => {
+        running = undefined;
+      });
+      return running;
+    };
+    const timer = setInterval(tick, interval * 1000);
+
+    return {
+      stop: async () => {
+        clearInterval(timer);
+        await running;
+        await tick();
+      },
+    };
+  }
+
   /**
    * Phase 3: Update - handle git changes or post responses
    */
@@ -6,6 +6,64 @@ import type {
   ITempDirectoryService,
 } from "../interfaces";
 import { EnvVar } from "../types";
+import {
+  type ControlCommandName,
+  formatCommandHelp,
+  isControlCommand,
+  isTriggerCommand,
+  parseTriggerCommand,
+  type TriggerCommandName,
+} from "../validation/command";
+import { ExecutionProgress } from "./execution-progress";
+
+type PromptKind = "merge_request" | "issue" | "project";
+
+const DEFAULT_TASKS: Record<PromptKind, string> = {
+  merge_request:
+    "Please analyze this merge request and provide feedback on code quality, potential issues, and suggestions for improvement.",
+  issue: "Please analyze this issue and help with the requested task.",
+  project: "Please help with the requested task.",
+};
+
+// Prompt templates for the trigger commands. Control commands are handled by
+// the webhook server, except help which is answered with the usage.
+const COMMAND_TASKS: Record<
+  Exclude<TriggerCommandName, ControlCommandName>,
+  Record<PromptKind, string>
+> = {
+  review: {
+    merge_request:
+      "Review this merge request. Point out bugs, security issues and missing tests, referencing exact file paths and line numbers. Do not push any changes.",
+    issue:
+      "Review the proposal in this issue. Point out gaps, risks and open questions. Do not push any changes.",
+    project:
+      "Review the code in this project and point out bugs, security issues and missing tests. Do not push any changes.",
+  },
+  fix: {
+    merge_request:
+      "Implement the requested fix on the source branch of this merge request, run the tests and commit the changes.",
+    issue:
+      "Implement a fix for this issue on the working branch, run the tests and commit the changes.",
+    project:
+      "Implement the requested fix, run the tests and commit the changes.",
+  },
+  explain: {
+    merge_request:
+      "Explain what this merge request changes and why, walking through the relevant code. Do not push any changes.",
+    issue:
+      "Explain the code and behavior this issue is about, walking through the relevant files. Do not push any changes.",
+    project:
+      "Explain the code in question, walking through the relevant files. Do not push any changes.",
+  },
+  describe: {
+    merge_request:
+      "Write a concise title and description for this merge request summarizing the changes, their motivation and how to test them. Reply with them in a comment.",
+    issue:
+      "Write a concise title and description for this issue summarizing the problem and the expected outcome. Reply with them in a comment.",
+    project:
+      "Write a concise summary of the requested change. Reply with it in a comment.",
+  },
+};
 
 export class PrepareEntrypointOrchestrator {
   constructor(
@@ -25,10 +83,13 @@ export class PrepareEntrypointOrchestrator {
       const triggerPhrase =
         this.environment.get(EnvVar.TRIGGER_PHRASE) || "@claude";
       const directPrompt = this.environment.get(EnvVar.DIRECT_PROMPT) || "";
+      // Set by the webhook server, also for label and assignment triggers
+      // that carry a command but no mention or prompt
+      const commandName = this.environment.get(EnvVar.CLAUDE_COMMAND) || "";
 
       // Step 4: Check write permissions
       console.log("Step 4: Checking write permissions...");
-      const context = this.gitLabService.getContext();
+      const context = await this.gitLabService.getContext();
       console.log(`Checking permissions for actor: ${context.actor}`);
 
       let hasWritePermissions: boolean;
@@ -56,10 +117,9 @@ export class PrepareEntrypointOrchestrator {
       console.log("Step 5: Checking trigger conditions...");
       let containsTrigger: boolean;
       try {
-        containsTrigger = await this.gitLabService.checkTrigger(
-          triggerPhrase,
-          directPrompt,
-        );
+        containsTrigger =
+          isTriggerCommand(commandName) ||
+          (await this.gitLabService.checkTrigger(triggerPhrase, directPrompt));
         console.log(`Trigger check result: ${containsTrigger}`);
       } catch (error) {
         console.error("Error checking trigger:", error);
@@ -102,15 +162,7 @@ export class PrepareEntrypointOrchestrator {
       // Step 7: Create initial tracking comment
       console.log("Step 7: Creating initial tracking comment...");
       const jobUrl = this.gitLabService.getJobUrl();
-      const commentBody = `🤖 Claude is working on this...
-
-[View job details](${jobUrl})
-
----
-- [ ] Setting up workspace
-- [ ] Analyzing request  
-- [ ] Implementing changes
-- [ ] Running tests`;
+      const commentBody = new ExecutionProgress().format(jobUrl);
 
       let commentId: number;
       try {
@@ -186,7 +238,7 @@ export class PrepareEntrypointOrchestrator {
 
       // Extract trigger comment from webhook payload
       let triggerComment = "";
-      const webhookPayload = this.gitLabContext.parseWebhookPayload();
+      const webhookPayload = await this.gitLabContext.parseWebhookPayload();
       if (webhookPayload?.object_kind === "note") {
         triggerComment = webhookPayload.object_attributes?.note || "";
         console.log("Found trigger comment from webhook:", triggerComment);
@@ -207,6 +259,14 @@ export class PrepareEntrypointOrchestrator {
         }
       }
 
+      // Select the prompt template for the trigger command
+      const command = isTriggerCommand(commandName)
+        ? commandName
+        : parseTriggerCommand(triggerComment, triggerPhrase)?.command;
+      if (command) {
+        console.log(`Using prompt template for command: ${command}`);
+      }
+
       // Generate prompt based on context
       let prompt = "";
 
@@ -272,10 +332,7 @@ ${note.body}
 
 ${triggerComment ? `The user mentioned you with: "${triggerComment}"` : ""}
 
-${
-  directPrompt ||
-  "Please analyze this merge request and provide feedback on code quality, potential issues, and suggestions for improvement."
-}
+${this.buildTask("merge_request", command, directPrompt, triggerPhrase)}
 
 When providing feedback, be specific and reference exact line numbers and file paths.`;
       } else if (contextData.iid && contextData.state) {
@@ -314,7 +371,7 @@ ${note.body}
 
 ${triggerComment ? `The user mentioned you with: "${triggerComment}"` : ""}
 
-${directPrompt || "Please analyze this issue and help with the requested task."}
+${this.buildTask("issue", command, directPrompt, triggerPhrase)}
 
 When providing assistance, be specific and reference the issue context.`;
       } else {
@@ -331,7 +388,7 @@ When providing assistance, be specific and reference the issue context.`;
 
 ${triggerComment ? `The user mentioned you with: "${triggerComment}"` : ""}
 
-${directPrompt || "Please help with the requested task."}`;
+${this.buildTask("project", command, directPrompt, triggerPhrase)}`;
       }
 
       // Write prompt file=
@@ -343,9 +400,6 @@ ${directPrompt || "Please help with the requested task."}`;
       if (prompt.length > 500) {
         console.log("... (truncated)");
       }
-
-      // GitLab doesn't need MCP config for now
-      console.log("mcp_config=");
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -370,4 +424,27 @@ ${directPrompt || "Please help with the requested task."}`;
       process.exit(1);
     }
   }
+
+  /**
+   * Task section of the prompt for the trigger command, if any
+   */
+  private buildTask(
+    kind: PromptKind,
+    command: TriggerCommandName | undefined,
+    directPrompt: string,
+    triggerPhrase: string,
+  ): string {
+    if (command === "help") {
+      return `Reply with the following usage and do not make any changes:\n\n${formatCommandHelp(triggerPhrase)}`;
+    }
+
+    if (!command || isControlCommand(command)) {
+      return directPrompt || DEFAULT_TASKS[kind];
+    }
+
+    const task = COMMAND_TASKS[command][kind];
+    return directPrompt
+      ? `${task}\n\nAdditional instructions from the user: ${directPrompt}`
+      : task;
+  }
 }
@@ -6,6 +6,7 @@ import type {
   IGitLabAdapter,
 } from "../interfaces";
 import { EnvVar } from "../types";
+import { withBotMarker } from "../validation/bot-note";
 
 export class UpdateCommentGitLabOrchestrator {
   constructor(
@@ -84,12 +85,14 @@ export class UpdateCommentGitLabOrchestrator {
         ? `${gitlabHost}/${projectId}/-/pipelines/${pipelineId}`
         : `${gitlabHost}/${projectId}/-/pipelines`;
 
-      const updatedBody = this.formatGitLabCommentBody(
-        originalComment.body,
-        actionSucceeded,
-        jobUrl,
-        errorDetails,
-        executionDetails,
+      const updatedBody = withBotMarker(
+        this.formatGitLabCommentBody(
+          originalComment.body,
+          actionSucceeded,
+          jobUrl,
+          errorDetails,
+          executionDetails,
+        ),
       );
 
       // Update the comment
@@ -168,6 +171,9 @@ export class UpdateCommentGitLabOrchestrator {
     // Check off all items in the markdown task list
     finalBody = finalBody.replace(/- \[ \] /g, "- [x] ");
 
+    // The current phase of the live progress is over
+    finalBody = finalBody.replace(/^- Current phase: .*\n?/m, "");
+
     // Ensure the job link is present
     if (!finalBody.includes(jobUrl)) {
       finalBody += `\n\n[View job details](${jobUrl})`;
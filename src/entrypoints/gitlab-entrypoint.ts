@@ -19,6 +19,7 @@ async function main() {
     container.commandExecution,
     container.tempDirectory,
     container.gitLabService,
+    container.httpClient,
   );
 
   // Run the complete pipeline and get exit code
@@ -0,0 +1,34 @@
+#!/usr/bin/env bun
+
+/**
+ * GitLab MCP server Claude Code starts over stdio during the execute phase
+ */
+
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { GitLabMcpServer } from "../mcp/gitlab.server";
+import { createServiceContainer } from "../services";
+
+async function main() {
+  // Stdout carries the MCP protocol, so service logs go to stderr
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+
+  const container = createServiceContainer();
+
+  const server = new GitLabMcpServer(
+    container.environment,
+    container.gitLabService,
+  ).create();
+
+  await server.connect(new StdioServerTransport());
+}
+
+if (import.meta.main) {
+  main().catch((error) => {
+    console.error(
+      `GitLab MCP server failed: ${error instanceof Error ? error.message : error}`,
+    );
+    process.exit(1);
+  });
+}
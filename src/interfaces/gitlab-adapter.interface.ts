@@ -1,15 +1,18 @@
 import type {
   AllPipelinesOptions,
+  AwardEmojiSchema,
   BasePaginationRequestOptions,
   BranchSchema,
   CommitAction,
   CommitSchema,
   DiscussionNotePositionOptions,
+  DiscussionNoteSchema,
   DiscussionSchema,
   ExpandedMergeRequestSchema,
   ExpandedPipelineSchema,
   IssueNoteSchema,
   IssueSchema,
+  JobSchema,
   MemberSchema,
   MergeRequestChangesSchema,
   MergeRequestNoteSchema,
@@ -56,6 +59,16 @@ export interface IGitLabAdapter {
     issueIid: string;
   }): Promise<IssueNoteSchema[]>;
 
+  showIssueNote({
+    projectId,
+    issueIid,
+    noteId,
+  }: {
+    projectId: string;
+    issueIid: string | number;
+    noteId: string | number;
+  }): Promise<IssueNoteSchema>;
+
   createMergeRequestNote({
     projectId,
     mergeRequestIid,
@@ -86,6 +99,16 @@ export interface IGitLabAdapter {
     mergeRequestIid: string;
   }): Promise<MergeRequestNoteSchema[]>;
 
+  showMergeRequestNote({
+    projectId,
+    mergeRequestIid,
+    noteId,
+  }: {
+    projectId: string;
+    mergeRequestIid: string | number;
+    noteId: string | number;
+  }): Promise<MergeRequestNoteSchema>;
+
   showMergeRequest({
     projectId,
     mergeRequestIid,
@@ -125,6 +148,44 @@ export interface IGitLabAdapter {
     };
   }): Promise<DiscussionSchema>;
 
+  createMergeRequestDiscussionNote({
+    projectId,
+    mergeRequestIid,
+    discussionId,
+    noteId,
+    body,
+  }: {
+    projectId: string;
+    mergeRequestIid: string;
+    discussionId: string;
+    noteId: number;
+    body: string;
+  }): Promise<DiscussionNoteSchema>;
+
+  awardMergeRequestNoteEmoji({
+    projectId,
+    mergeRequestIid,
+    noteId,
+    name,
+  }: {
+    projectId: string;
+    mergeRequestIid: string;
+    noteId: number;
+    name: string;
+  }): Promise<AwardEmojiSchema>;
+
+  editMergeRequestLabels({
+    projectId,
+    mergeRequestIid,
+    addLabels,
+    removeLabels,
+  }: {
+    projectId: string;
+    mergeRequestIid: string;
+    addLabels?: string[];
+    removeLabels?: string[];
+  }): Promise<ExpandedMergeRequestSchema>;
+
   showIssue({
     projectId,
     issueIid,
@@ -141,6 +202,44 @@ export interface IGitLabAdapter {
     issueIid?: string | number;
   }): Promise<DiscussionSchema[]>;
 
+  createIssueDiscussionNote({
+    projectId,
+    issueIid,
+    discussionId,
+    noteId,
+    body,
+  }: {
+    projectId: string;
+    issueIid: string;
+    discussionId: string;
+    noteId: number;
+    body: string;
+  }): Promise<DiscussionNoteSchema>;
+
+  awardIssueNoteEmoji({
+    projectId,
+    issueIid,
+    noteId,
+    name,
+  }: {
+    projectId: string;
+    issueIid: string;
+    noteId: number;
+    name: string;
+  }): Promise<AwardEmojiSchema>;
+
+  editIssueLabels({
+    projectId,
+    issueIid,
+    addLabels,
+    removeLabels,
+  }: {
+    projectId: string;
+    issueIid: string;
+    addLabels?: string[];
+    removeLabels?: string[];
+  }): Promise<IssueSchema>;
+
   showCurrentUser(): Promise<UserSchema>;
 
   allUsers(username: string): Promise<SimpleUserSchema[]>;
@@ -214,4 +313,20 @@ export interface IGitLabAdapter {
     projectId: string | number;
     pipelineId: number;
   }): Promise<ExpandedPipelineSchema>;
+
+  allPipelineJobs({
+    projectId,
+    pipelineId,
+  }: {
+    projectId: string | number;
+    pipelineId: number;
+  }): Promise<JobSchema[]>;
+
+  showJobLog({
+    projectId,
+    jobId,
+  }: {
+    projectId: string | number;
+    jobId: number;
+  }): Promise<string>;
 }
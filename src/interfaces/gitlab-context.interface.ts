@@ -2,6 +2,7 @@ import type { GitLabWebhookPayload, ParsedGitLabContext } from "../types";
 
 export interface IGitLabContextService {
   getContext(): ParsedGitLabContext;
-  parseWebhookPayload(): GitLabWebhookPayload | null;
+  getHost(): string;
+  parseWebhookPayload(): Promise<GitLabWebhookPayload | null>;
   resetCache(): void;
 }
@@ -1,4 +1,8 @@
-import type { BranchSchema, DiscussionNoteSchema } from "@gitbeaker/rest";
+import type {
+  BranchSchema,
+  DiscussionNoteSchema,
+  JobSchema,
+} from "@gitbeaker/rest";
 import type {
   FileChange,
   GitLabIssueData,
@@ -17,7 +21,7 @@ export interface IGitLabService {
   /**
    * Get the current context (PR/MR, issue, etc.)
    */
-  getContext(): SCMContext;
+  getContext(): Promise<SCMContext>;
 
   /**
    * Check if a user has write permissions
@@ -115,6 +119,43 @@ export interface IGitLabService {
     }>,
   ): Promise<void>;
 
+  /**
+   * Start a discussion on a line of the merge request diff, returns the
+   * discussion ID
+   */
+  createInlineDiscussion({
+    path,
+    line,
+    body,
+  }: {
+    path: string;
+    line: number;
+    body: string;
+  }): Promise<string>;
+
+  /**
+   * Reply in a discussion thread of the merge request or issue, returns the
+   * note ID
+   */
+  replyToDiscussion({
+    discussionId,
+    body,
+  }: {
+    discussionId: string;
+    body: string;
+  }): Promise<number>;
+
+  /**
+   * Get the jobs of a pipeline, by default of the merge request's latest
+   * pipeline
+   */
+  getPipelineJobs(pipelineId?: number): Promise<JobSchema[]>;
+
+  /**
+   * Get the log of a CI job
+   */
+  getJobLog(jobId: number): Promise<string>;
+
   /**
    * Get GitLab pipeline URL
    */
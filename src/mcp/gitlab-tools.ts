@@ -0,0 +1,29 @@
+/**
+ * GitLab MCP Tool Names
+ *
+ * Names of the bundled GitLab MCP server and its tools, shared by the server,
+ * the execute phase granting the tools and the progress tracking reading
+ * their calls
+ */
+
+// Name of the server in the MCP config
+export const GITLAB_MCP_SERVER_NAME = "gitlab";
+
+export const GITLAB_MCP_TOOLS = [
+  "update_claude_comment",
+  "create_inline_discussion",
+  "reply_to_discussion",
+  "read_file",
+  "list_mr_changes",
+  "list_pipeline_jobs",
+  "read_job_log",
+] as const;
+
+export type GitLabMcpToolName = (typeof GITLAB_MCP_TOOLS)[number];
+
+/**
+ * Name Claude sees a tool under, e.g. mcp__gitlab__read_file
+ */
+export function gitLabMcpToolName(tool: GitLabMcpToolName): string {
+  return `mcp__${GITLAB_MCP_SERVER_NAME}__${tool}`;
+}
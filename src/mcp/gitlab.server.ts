@@ -0,0 +1,209 @@
+/**
+ * GitLab MCP Server
+ *
+ * Tools Claude Code uses to act on the merge request or issue it works on
+ * while it runs: report progress, leave review comments and inspect the
+ * repository and pipelines
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { TRACKING_COMMENT_HEADER } from "../core/execution-progress";
+import type { IEnvironmentService, IGitLabService } from "../interfaces";
+import { EnvVar } from "../types";
+import { GITLAB_MCP_SERVER_NAME } from "./gitlab-tools";
+
+// Job logs are cut to their end, where failures are reported
+const MAX_LOG_LENGTH = 20000;
+
+// Longer diffs of a single file are cut when listing changes
+const MAX_PATCH_LENGTH = 5000;
+
+export class GitLabMcpServer {
+  constructor(
+    private environment: IEnvironmentService,
+    private gitLabService: IGitLabService,
+  ) {}
+
+  /**
+   * Create the MCP server with all GitLab tools registered
+   */
+  create(): McpServer {
+    const server = new McpServer({
+      name: GITLAB_MCP_SERVER_NAME,
+      version: "1.0.0",
+    });
+
+    server.registerTool(
+      "update_claude_comment",
+      {
+        description:
+          "Replace the content of your tracking comment on the merge request or issue, to report progress while you work. Markdown is supported.",
+        inputSchema: { body: z.string().min(1) },
+      },
+      ({ body }) => this.run(() => this.updateClaudeComment(body)),
+    );
+
+    server.registerTool(
+      "create_inline_discussion",
+      {
+        description:
+          "Start a discussion on a line of the merge request diff, e.g. for a review comment or a suggestion. The line is the line number in the new version of the file.",
+        inputSchema: {
+          path: z.string().min(1),
+          line: z.number().int().positive(),
+          body: z.string().min(1),
+        },
+      },
+      (input) =>
+        this.run(async () => {
+          const discussionId =
+            await this.gitLabService.createInlineDiscussion(input);
+          return `Created discussion ${discussionId} on ${input.path}:${input.line}`;
+        }),
+    );
+
+    server.registerTool(
+      "reply_to_discussion",
+      {
+        description:
+          "Reply in an existing discussion thread of the merge request or issue.",
+        inputSchema: {
+          discussion_id: z.string().min(1),
+          body: z.string().min(1),
+        },
+      },
+      ({ discussion_id, body }) =>
+        this.run(async () => {
+          const noteId = await this.gitLabService.replyToDiscussion({
+            discussionId: discussion_id,
+            body,
+          });
+          return `Replied with note ${noteId}`;
+        }),
+    );
+
+    server.registerTool(
+      "read_file",
+      {
+        description:
+          "Read a file of the repository at a branch, tag or commit. Defaults to the commit the pipeline runs on.",
+        inputSchema: {
+          path: z.string().min(1),
+          ref: z.string().optional(),
+        },
+      },
+      ({ path, ref }) =>
+        this.run(() =>
+          this.gitLabService.getFileContent(path, ref || this.defaultRef()),
+        ),
+    );
+
+    server.registerTool(
+      "list_mr_changes",
+      {
+        description:
+          "List the files changed by the merge request, with their diffs.",
+      },
+      () => this.run(() => this.listChanges()),
+    );
+
+    server.registerTool(
+      "list_pipeline_jobs",
+      {
+        description:
+          "List the jobs of a pipeline with their status. Defaults to the latest pipeline of the merge request.",
+        inputSchema: { pipeline_id: z.number().int().positive().optional() },
+      },
+      ({ pipeline_id }) =>
+        this.run(async () => {
+          const jobs = await this.gitLabService.getPipelineJobs(pipeline_id);
+          return jobs
+            .map(
+              (job) =>
+                `- ${job.id}: ${job.name} (stage ${job.stage}) ${job.status}`,
+            )
+            .join("\n");
+        }),
+    );
+
+    server.registerTool(
+      "read_job_log",
+      {
+        description: `Read the log of a CI job, e.g. to find out why it failed. Long logs are cut to their last ${MAX_LOG_LENGTH} characters.`,
+        inputSchema: { job_id: z.number().int().positive() },
+      },
+      ({ job_id }) =>
+        this.run(async () => {
+          const log = await this.gitLabService.getJobLog(job_id);
+          return log.length > MAX_LOG_LENGTH
+            ? `[Showing the last ${MAX_LOG_LENGTH} of ${log.length} characters]\n${log.slice(-MAX_LOG_LENGTH)}`
+            : log;
+        }),
+    );
+
+    return server;
+  }
+
+  /**
+   * Run a tool, reporting failures to Claude instead of ending the server
+   */
+  private async run(tool: () => Promise<string>): Promise<CallToolResult> {
+    try {
+      return { content: [{ type: "text", text: await tool() }] };
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${error instanceof Error ? error.message : error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async updateClaudeComment(body: string): Promise<string> {
+    const commentId = this.environment.get(EnvVar.CLAUDE_COMMENT_ID);
+    if (!commentId) {
+      throw new Error("No tracking comment to update");
+    }
+
+    // Keep the header and job link, the webhook server finds the comment by
+    // them when the job dies
+    await this.gitLabService.updateComment({
+      commentId,
+      body: `${TRACKING_COMMENT_HEADER}\n\n[View job details](${this.gitLabService.getJobUrl()})\n\n---\n${body}`,
+    });
+    return `Updated comment ${commentId}`;
+  }
+
+  private async listChanges(): Promise<string> {
+    const changes = await this.gitLabService.getChangedFiles();
+    if (changes.length === 0) {
+      return "The merge request has no changes";
+    }
+
+    return changes
+      .map((change) => {
+        const patch =
+          change.patch && change.patch.length > MAX_PATCH_LENGTH
+            ? `${change.patch.slice(0, MAX_PATCH_LENGTH)}\n[Diff cut, read the file for the rest]`
+            : change.patch;
+        return `### ${change.path} (+${change.additions} -${change.deletions})${
+          patch ? `\n\n\`\`\`diff\n${patch}\n\`\`\`` : ""
+        }`;
+      })
+      .join("\n\n");
+  }
+
+  private defaultRef(): string {
+    return (
+      this.environment.get(EnvVar.CI_COMMIT_SHA) ||
+      this.environment.get(EnvVar.CLAUDE_BRANCH) ||
+      "HEAD"
+    );
+  }
+}
@@ -23,12 +23,12 @@ import { TokenService } from "./token.service";
 export function createServiceContainer(): ServiceContainer {
   const logger = new LoggerService();
   const environment = new EnvironmentService();
-  const gitLabContext = new GitLabContextService(environment);
+  const httpClient = new HttpClient();
+  const gitLabContext = new GitLabContextService(environment, httpClient);
   const tokenService = new TokenService(logger, environment);
   const gitLabAdapter = new GitLabAdapter(tokenService, gitLabContext);
   const commandExecution = new CommandExecutionService();
   const fileSystem = new FileSystemService();
-  const httpClient = new HttpClient();
   const gitLabData = new GitLabDataService(gitLabAdapter, gitLabContext);
   const tempDirectory = new TempDirectoryService(environment, fileSystem);
   const gitLabService = new GitLabService(
@@ -1,4 +1,8 @@
-import type { IEnvironmentService, IGitLabContextService } from "../interfaces";
+import type {
+  IEnvironmentService,
+  IGitLabContextService,
+  IHttpClient,
+} from "../interfaces";
 import {
   EnvVar,
   type GitLabWebhookPayload,
@@ -9,7 +13,10 @@ let context: ParsedGitLabContext | null = null;
 let gitLabWebhookPayload: GitLabWebhookPayload | null = null;
 
 export class GitLabContextService implements IGitLabContextService {
-  constructor(private environment: IEnvironmentService) {}
+  constructor(
+    private environment: IEnvironmentService,
+    private httpClient: IHttpClient,
+  ) {}
 
   // For testing purposes - reset the module-level cache
   resetCache(): void {
@@ -57,11 +64,32 @@ export class GitLabContextService implements IGitLabContextService {
     return context;
   }
 
-  parseWebhookPayload(): GitLabWebhookPayload | null {
+  // Resolves the GitLab host without requiring CI project context, so the
+  // webhook server can use the API outside of a pipeline
+  getHost(): string {
+    return (
+      this.environment.get(EnvVar.CI_SERVER_URL) ??
+      this.environment.get(EnvVar.GITLAB_URL) ??
+      "https://gitlab.com"
+    );
+  }
+
+  async parseWebhookPayload(): Promise<GitLabWebhookPayload | null> {
     if (gitLabWebhookPayload !== null) {
       return gitLabWebhookPayload;
     }
 
+    // The webhook server stores the complete payload and passes a reference,
+    // as CI variables are too small to hold it
+    const payloadRef = this.environment.get(EnvVar.GITLAB_WEBHOOK_PAYLOAD_REF);
+    if (payloadRef) {
+      gitLabWebhookPayload = await this.fetchWebhookPayload(payloadRef);
+      if (gitLabWebhookPayload !== null) {
+        return gitLabWebhookPayload;
+      }
+      console.warn("Falling back to the inline GitLab webhook payload");
+    }
+
     const payload = this.environment.get(EnvVar.GITLAB_WEBHOOK_PAYLOAD);
     if (!payload) {
       return null;
@@ -75,4 +103,27 @@ export class GitLabContextService implements IGitLabContextService {
       return null;
     }
   }
+
+  private async fetchWebhookPayload(
+    payloadRef: string,
+  ): Promise<GitLabWebhookPayload | null> {
+    try {
+      const token = this.environment.get(EnvVar.WEBHOOK_PAYLOAD_TOKEN);
+      const response = await this.httpClient.fetch(payloadRef, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+      });
+
+      if (!response.ok) {
+        console.error(
+          `Failed to fetch GitLab webhook payload: ${response.status} ${response.statusText}`,
+        );
+        return null;
+      }
+
+      return (await response.json()) as GitLabWebhookPayload;
+    } catch (error) {
+      console.error("Failed to fetch GitLab webhook payload:", error);
+      return null;
+    }
+  }
 }
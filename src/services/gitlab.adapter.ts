@@ -1,15 +1,18 @@
 import type {
   AllPipelinesOptions,
+  AwardEmojiSchema,
   BasePaginationRequestOptions,
   BranchSchema,
   CommitAction,
   CommitSchema,
   DiscussionNotePositionOptions,
+  DiscussionNoteSchema,
   DiscussionSchema,
   ExpandedMergeRequestSchema,
   ExpandedPipelineSchema,
   IssueNoteSchema,
   IssueSchema,
+  JobSchema,
   MemberSchema,
   MergeRequestChangesSchema,
   MergeRequestNoteSchema,
@@ -44,11 +47,8 @@ export class GitLabAdapter implements IGitLabAdapter {
 
   private getGitLabClient(): InstanceType<typeof Gitlab> {
     if (!this.gitlab) {
-      const context = this.gitLabContext.getContext();
-      const host = context?.host || "https://gitlab.com";
-
       this.gitlab = new Gitlab({
-        host,
+        host: this.gitLabContext.getHost(),
         token: this.tokenService.getToken(),
       });
     }
@@ -111,6 +111,22 @@ export class GitLabAdapter implements IGitLabAdapter {
     ) as Promise<IssueNoteSchema[]>;
   }
 
+  showIssueNote({
+    projectId,
+    issueIid,
+    noteId,
+  }: {
+    projectId: string;
+    issueIid: string | number;
+    noteId: string | number;
+  }): Promise<IssueNoteSchema> {
+    return this.getGitLabClient().IssueNotes.show(
+      projectId,
+      typeof issueIid === "string" ? parseInt(issueIid, 10) : issueIid,
+      typeof noteId === "string" ? parseInt(noteId, 10) : noteId,
+    ) as Promise<IssueNoteSchema>;
+  }
+
   createMergeRequestNote({
     projectId,
     mergeRequestIid,
@@ -140,6 +156,24 @@ export class GitLabAdapter implements IGitLabAdapter {
     ) as Promise<MergeRequestNoteSchema[]>;
   }
 
+  showMergeRequestNote({
+    projectId,
+    mergeRequestIid,
+    noteId,
+  }: {
+    projectId: string;
+    mergeRequestIid: string | number;
+    noteId: string | number;
+  }): Promise<MergeRequestNoteSchema> {
+    return this.getGitLabClient().MergeRequestNotes.show(
+      projectId,
+      typeof mergeRequestIid === "string"
+        ? parseInt(mergeRequestIid, 10)
+        : mergeRequestIid,
+      typeof noteId === "string" ? parseInt(noteId, 10) : noteId,
+    ) as Promise<MergeRequestNoteSchema>;
+  }
+
   editMergeRequestNote({
     projectId,
     mergeRequestIid,
@@ -223,6 +257,68 @@ export class GitLabAdapter implements IGitLabAdapter {
     ) as Promise<DiscussionSchema>;
   }
 
+  createMergeRequestDiscussionNote({
+    projectId,
+    mergeRequestIid,
+    discussionId,
+    noteId,
+    body,
+  }: {
+    projectId: string;
+    mergeRequestIid: string;
+    discussionId: string;
+    noteId: number;
+    body: string;
+  }): Promise<DiscussionNoteSchema> {
+    return this.getGitLabClient().MergeRequestDiscussions.addNote(
+      projectId,
+      parseInt(mergeRequestIid, 10),
+      discussionId,
+      noteId,
+      body,
+    ) as Promise<DiscussionNoteSchema>;
+  }
+
+  awardMergeRequestNoteEmoji({
+    projectId,
+    mergeRequestIid,
+    noteId,
+    name,
+  }: {
+    projectId: string;
+    mergeRequestIid: string;
+    noteId: number;
+    name: string;
+  }): Promise<AwardEmojiSchema> {
+    return this.getGitLabClient().MergeRequestNoteAwardEmojis.award(
+      projectId,
+      parseInt(mergeRequestIid, 10),
+      noteId,
+      name,
+    ) as Promise<AwardEmojiSchema>;
+  }
+
+  editMergeRequestLabels({
+    projectId,
+    mergeRequestIid,
+    addLabels,
+    removeLabels,
+  }: {
+    projectId: string;
+    mergeRequestIid: string;
+    addLabels?: string[];
+    removeLabels?: string[];
+  }): Promise<ExpandedMergeRequestSchema> {
+    return this.getGitLabClient().MergeRequests.edit(
+      projectId,
+      parseInt(mergeRequestIid, 10),
+      {
+        addLabels: addLabels?.join(","),
+        removeLabels: removeLabels?.join(","),
+      },
+    ) as Promise<ExpandedMergeRequestSchema>;
+  }
+
   showIssue({
     projectId,
     issueIid,
@@ -257,6 +353,68 @@ export class GitLabAdapter implements IGitLabAdapter {
     ) as Promise<DiscussionSchema[]>;
   }
 
+  createIssueDiscussionNote({
+    projectId,
+    issueIid,
+    discussionId,
+    noteId,
+    body,
+  }: {
+    projectId: string;
+    issueIid: string;
+    discussionId: string;
+    noteId: number;
+    body: string;
+  }): Promise<DiscussionNoteSchema> {
+    return this.getGitLabClient().IssueDiscussions.addNote(
+      projectId,
+      parseInt(issueIid, 10),
+      discussionId,
+      noteId,
+      body,
+    ) as Promise<DiscussionNoteSchema>;
+  }
+
+  awardIssueNoteEmoji({
+    projectId,
+    issueIid,
+    noteId,
+    name,
+  }: {
+    projectId: string;
+    issueIid: string;
+    noteId: number;
+    name: string;
+  }): Promise<AwardEmojiSchema> {
+    return this.getGitLabClient().IssueNoteAwardEmojis.award(
+      projectId,
+      parseInt(issueIid, 10),
+      noteId,
+      name,
+    ) as Promise<AwardEmojiSchema>;
+  }
+
+  editIssueLabels({
+    projectId,
+    issueIid,
+    addLabels,
+    removeLabels,
+  }: {
+    projectId: string;
+    issueIid: string;
+    addLabels?: string[];
+    removeLabels?: string[];
+  }): Promise<IssueSchema> {
+    return this.getGitLabClient().Issues.edit(
+      projectId,
+      parseInt(issueIid, 10),
+      {
+        addLabels: addLabels?.join(","),
+        removeLabels: removeLabels?.join(","),
+      },
+    ) as Promise<IssueSchema>;
+  }
+
   showCurrentUser(): Promise<UserSchema> {
     return this.getGitLabClient().Users.showCurrentUser() as Promise<UserSchema>;
   }
@@ -280,10 +438,9 @@ export class GitLabAdapter implements IGitLabAdapter {
     projectId: string;
     userId: number;
   }): Promise<MemberSchema> {
-    return this.getGitLabClient().ProjectMembers.show(
-      projectId,
-      userId,
-    ) as Promise<MemberSchema>;
+    return this.getGitLabClient().ProjectMembers.show(projectId, userId, {
+      includeInherited: true,
+    }) as Promise<MemberSchema>;
   }
 
   showRepositoryFile({
@@ -378,4 +535,29 @@ export class GitLabAdapter implements IGitLabAdapter {
       pipelineId,
     ) as Promise<ExpandedPipelineSchema>;
   }
+
+  allPipelineJobs({
+    projectId,
+    pipelineId,
+  }: {
+    projectId: string | number;
+    pipelineId: number;
+  }): Promise<JobSchema[]> {
+    return this.getGitLabClient().Jobs.all(projectId, {
+      pipelineId,
+    }) as Promise<JobSchema[]>;
+  }
+
+  showJobLog({
+    projectId,
+    jobId,
+  }: {
+    projectId: string | number;
+    jobId: number;
+  }): Promise<string> {
+    return this.getGitLabClient().Jobs.showLog(
+      projectId,
+      jobId,
+    ) as Promise<string>;
+  }
 }
@@ -12,6 +12,7 @@ import type {
   DiscussionNoteSchema,
   DiscussionSchema,
   IssueNoteSchema,
+  JobSchema,
   MergeRequestNoteSchema,
 } from "@gitbeaker/rest";
 import type {
@@ -34,6 +35,7 @@ import {
   type RepoInfo,
   type SCMContext,
 } from "../types";
+import { withBotMarker } from "../validation/bot-note";
 import { checkGitLabTriggerAction } from "../validation/trigger";
 
 export class GitLabService implements IGitLabService {
@@ -116,8 +118,8 @@ export class GitLabService implements IGitLabService {
     };
   }
 
-  getContext(): SCMContext {
-    const webhook = this.gitLabContext.parseWebhookPayload();
+  async getContext(): Promise<SCMContext> {
+    const webhook = await this.gitLabContext.parseWebhookPayload();
     const isMR =
       !!this.context.mrIid || webhook?.object_kind === "merge_request";
     const entityNumber = this.context.mrIid
@@ -288,7 +290,8 @@ export class GitLabService implements IGitLabService {
     return comments;
   }
 
-  async createComment(body: string): Promise<number> {
+  async createComment(comment: string): Promise<number> {
+    const body = withBotMarker(comment);
     console.log(`Creating comment for project ${this.context.projectId}`);
     console.log(
       `Context: MR IID=${this.context.mrIid}, Issue IID=${this.context.issueIid}`,
@@ -386,11 +389,12 @@ export class GitLabService implements IGitLabService {
 
   async updateComment({
     commentId,
-    body,
+    body: comment,
   }: {
     commentId: string;
     body: string;
   }): Promise<void> {
+    const body = withBotMarker(comment);
     if (this.context.mrIid) {
       // Update comment on merge request
       await this.client.editMergeRequestNote({
@@ -621,6 +625,134 @@ ${s.suggestion}
     }
   }
 
+  async createInlineDiscussion({
+    path,
+    line,
+    body,
+  }: {
+    path: string;
+    line: number;
+    body: string;
+  }): Promise<string> {
+    if (!this.context.mrIid) {
+      throw new Error(
+        "Inline discussions can only be created on merge requests",
+      );
+    }
+
+    const mr = await this.client.showMergeRequest({
+      projectId: this.context.projectId,
+      mergeRequestIid: this.context.mrIid,
+    });
+    if (!mr.diff_refs) {
+      throw new Error("Merge request has no diff to comment on");
+    }
+
+    const discussion = await this.client.createMergeRequestDiscussion({
+      projectId: this.context.projectId,
+      mergeRequestIid: this.context.mrIid,
+      body: withBotMarker(body),
+      options: {
+        position: {
+          baseSha: mr.diff_refs.base_sha,
+          startSha: mr.diff_refs.start_sha,
+          headSha: mr.diff_refs.head_sha,
+          oldPath: path,
+          newPath: path,
+          positionType: "text",
+          newLine: line.toString(),
+        },
+      },
+    });
+
+    return discussion.id;
+  }
+
+  async replyToDiscussion({
+    discussionId,
+    body: comment,
+  }: {
+    discussionId: string;
+    body: string;
+  }): Promise<number> {
+    const body = withBotMarker(comment);
+
+    if (this.context.mrIid) {
+      const discussions = await this.client.allMergeRequestDiscussions({
+        projectId: this.context.projectId,
+        mergeRequestIid: this.context.mrIid,
+      });
+      const noteId = this.findDiscussionNoteId(discussions, discussionId);
+      const note = await this.client.createMergeRequestDiscussionNote({
+        projectId: this.context.projectId,
+        mergeRequestIid: this.context.mrIid,
+        discussionId,
+        noteId,
+        body,
+      });
+      return note.id;
+    }
+
+    if (this.context.issueIid) {
+      const discussions = await this.client.allIssueDiscussions({
+        projectId: this.context.projectId,
+        issueIid: this.context.issueIid,
+      });
+      const noteId = this.findDiscussionNoteId(discussions, discussionId);
+      const note = await this.client.createIssueDiscussionNote({
+        projectId: this.context.projectId,
+        issueIid: this.context.issueIid,
+        discussionId,
+        noteId,
+        body,
+      });
+      return note.id;
+    }
+
+    throw new Error(
+      "Cannot reply to a discussion without merge request or issue context",
+    );
+  }
+
+  private findDiscussionNoteId(
+    discussions: DiscussionSchema[],
+    discussionId: string,
+  ): number {
+    const noteId = discussions.find(
+      (discussion) => discussion.id === discussionId,
+    )?.notes?.[0]?.id;
+    if (!noteId) {
+      throw new Error(`Discussion not found: ${discussionId}`);
+    }
+    return noteId;
+  }
+
+  async getPipelineJobs(pipelineId?: number): Promise<JobSchema[]> {
+    let id = pipelineId;
+    if (!id && this.context.mrIid) {
+      const mr = await this.client.showMergeRequest({
+        projectId: this.context.projectId,
+        mergeRequestIid: this.context.mrIid,
+      });
+      id = mr.head_pipeline?.id;
+    }
+    if (!id) {
+      throw new Error("No pipeline given and no merge request pipeline found");
+    }
+
+    return this.client.allPipelineJobs({
+      projectId: this.context.projectId,
+      pipelineId: id,
+    });
+  }
+
+  async getJobLog(jobId: number): Promise<string> {
+    return this.client.showJobLog({
+      projectId: this.context.projectId,
+      jobId,
+    });
+  }
+
   getJobUrl(): string {
     return (
       this.context.pipelineUrl ||
@@ -632,7 +764,7 @@ ${s.suggestion}
     triggerPhrase: string,
     directPrompt?: string,
   ): Promise<boolean> {
-    const payload = this.gitLabContext.parseWebhookPayload();
+    const payload = await this.gitLabContext.parseWebhookPayload();
     if (!payload) {
       console.log("No GitLab webhook payload found");
       return !!directPrompt;
@@ -5,6 +5,7 @@ export enum EnvVar {
   // GitLab API Configuration
   GITLAB_URL = "GITLAB_URL",
   GITLAB_TOKEN = "GITLAB_TOKEN",
+  GITLAB_BOT_USERNAME = "GITLAB_BOT_USERNAME",
   CLAUDE_CODE_GL_ACCESS_TOKEN = "CLAUDE_CODE_GL_ACCESS_TOKEN",
   CLAUDE_CODE_OAUTH_TOKEN = "CLAUDE_CODE_OAUTH_TOKEN",
   INPUT_CLAUDE_CODE_OAUTH_TOKEN = "INPUT_CLAUDE_CODE_OAUTH_TOKEN",
@@ -27,6 +28,7 @@ export enum EnvVar {
   CI_DEFAULT_BRANCH = "CI_DEFAULT_BRANCH",
   CI_JOB_TOKEN = "CI_JOB_TOKEN",
   CI_BUILDS_DIR = "CI_BUILDS_DIR",
+  CI_PROJECT_DIR = "CI_PROJECT_DIR",
 
   // Claude Configuration
   CLAUDE_MODEL = "CLAUDE_MODEL",
@@ -41,6 +43,8 @@ export enum EnvVar {
   CLAUDE_COMMENT_ID = "CLAUDE_COMMENT_ID",
   CLAUDE_ENV = "CLAUDE_ENV",
   CLAUDE_ENABLED = "CLAUDE_ENABLED",
+  CLAUDE_COMMAND = "CLAUDE_COMMAND",
+  CLAUDE_TRIGGER_LABEL = "CLAUDE_TRIGGER_LABEL",
 
   // Claude Advanced Configuration
   TIMEOUT_MINUTES = "TIMEOUT_MINUTES",
@@ -48,16 +52,22 @@ export enum EnvVar {
   DISALLOWED_TOOLS = "DISALLOWED_TOOLS",
   MAX_TURNS = "MAX_TURNS",
   FALLBACK_MODEL = "FALLBACK_MODEL",
+  CLAUDE_PROGRESS_INTERVAL = "CLAUDE_PROGRESS_INTERVAL",
 
   // Anthropic API
   ANTHROPIC_API_KEY = "ANTHROPIC_API_KEY",
+  CLAUDE_ANTHROPIC_KEY_REF = "CLAUDE_ANTHROPIC_KEY_REF",
 
   // Application Configuration
   TRIGGER_PHRASE = "TRIGGER_PHRASE",
+  TRIGGER_EMOJI = "TRIGGER_EMOJI",
   DIRECT_PROMPT = "DIRECT_PROMPT",
   ADMIN_TOKEN = "ADMIN_TOKEN",
+  METRICS_TOKEN = "METRICS_TOKEN",
   PORT = "PORT",
   WEBHOOK_SECRET = "WEBHOOK_SECRET",
+  WEBHOOK_SIGNING_SECRET = "WEBHOOK_SIGNING_SECRET",
+  WEBHOOK_SIGNATURE_TOLERANCE = "WEBHOOK_SIGNATURE_TOLERANCE",
   CANCEL_OLD_PIPELINES = "CANCEL_OLD_PIPELINES",
 
   // Logging
@@ -68,9 +78,19 @@ export enum EnvVar {
   REDIS_URL = "REDIS_URL",
   RATE_LIMIT_MAX = "RATE_LIMIT_MAX",
   RATE_LIMIT_WINDOW = "RATE_LIMIT_WINDOW",
+  RATE_LIMIT_POLICIES = "RATE_LIMIT_POLICIES",
+  RATE_LIMIT_ALLOWLIST = "RATE_LIMIT_ALLOWLIST",
+  RATE_LIMIT_FAILURE_MODE = "RATE_LIMIT_FAILURE_MODE",
+  ACCESS_RULES = "ACCESS_RULES",
+  LABEL_TRIGGERS = "LABEL_TRIGGERS",
+  WEBHOOK_IDEMPOTENCY_TTL = "WEBHOOK_IDEMPOTENCY_TTL",
+  RESOURCE_LOCK_TTL = "RESOURCE_LOCK_TTL",
+  MAX_CONCURRENT_PIPELINES = "MAX_CONCURRENT_PIPELINES",
+  MAX_CONCURRENT_PIPELINES_PER_PROJECT = "MAX_CONCURRENT_PIPELINES_PER_PROJECT",
 
-  // Discord Integration
+  // Notifications
   DISCORD_WEBHOOK_URL = "DISCORD_WEBHOOK_URL",
+  NOTIFICATIONS_CONFIG = "NOTIFICATIONS_CONFIG",
 
   // GitLab User Information
   GITLAB_USER_NAME = "GITLAB_USER_NAME",
@@ -78,6 +98,11 @@ export enum EnvVar {
 
   // Webhook Processing
   GITLAB_WEBHOOK_PAYLOAD = "GITLAB_WEBHOOK_PAYLOAD",
+  GITLAB_WEBHOOK_PAYLOAD_REF = "GITLAB_WEBHOOK_PAYLOAD_REF",
+  WEBHOOK_PAYLOAD_TOKEN = "WEBHOOK_PAYLOAD_TOKEN",
+  WEBHOOK_SERVER_URL = "WEBHOOK_SERVER_URL",
+  CLAUDE_JOB_ID = "CLAUDE_JOB_ID",
+  CLAUDE_LOCK_RELEASE_URL = "CLAUDE_LOCK_RELEASE_URL",
 
   // Pipeline Status
   PREPARE_SUCCESS = "PREPARE_SUCCESS",
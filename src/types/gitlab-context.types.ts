@@ -11,6 +11,20 @@ export type ParsedGitLabContext = {
   triggerSource?: string;
 };
 
+/**
+ * Diff position of a note on a merge request line
+ */
+export type GitLabNotePosition = {
+  base_sha: string;
+  start_sha: string;
+  head_sha: string;
+  old_path: string;
+  new_path: string;
+  position_type: string;
+  old_line?: number | null;
+  new_line?: number | null;
+};
+
 /**
  * Parse GitLab webhook payload for trigger detection
  */
@@ -21,10 +35,20 @@ export type GitLabWebhookPayload = {
     name: string;
   };
   object_attributes?: {
+    id?: number;
     title?: string;
     description?: string;
     note?: string;
     noteable_type?: string;
+    noteable_id?: number;
+    discussion_id?: string;
+    type?: string | null;
+    position?: GitLabNotePosition | null;
+    st_diff?: {
+      diff: string;
+      new_path: string;
+      old_path: string;
+    } | null;
     action?: string;
     state?: string;
     iid?: number;
@@ -0,0 +1,19 @@
+/**
+ * Bot Note Marker
+ *
+ * Hidden marker embedded in every comment the bot posts, so its own notes
+ * never trigger a new run even when they mention the trigger phrase
+ */
+
+export const BOT_NOTE_MARKER = "<!-- claude-bot-note -->";
+
+/**
+ * Append the marker to a comment body, unless it is already there
+ */
+export function withBotMarker(body: string): string {
+  return hasBotMarker(body) ? body : `${body}\n\n${BOT_NOTE_MARKER}`;
+}
+
+export function hasBotMarker(body: string): boolean {
+  return body.includes(BOT_NOTE_MARKER);
+}
@@ -0,0 +1,203 @@
+/**
+ * Trigger Command Parsing
+ *
+ * Shared grammar for trigger notes, used by the webhook server and the
+ * pipeline so both agree on what counts as a trigger:
+ *
+ *   @claude [command] [--model <name>] [--max-turns <n>] [prompt]
+ */
+
+export const TRIGGER_COMMANDS = [
+  "review",
+  "fix",
+  "explain",
+  "describe",
+  "help",
+  "stop",
+  "retry",
+  "status",
+] as const;
+
+export type TriggerCommandName = (typeof TRIGGER_COMMANDS)[number];
+
+// Commands the webhook server handles itself instead of selecting a prompt
+export const CONTROL_COMMANDS = ["help", "stop", "retry", "status"] as const;
+
+export type ControlCommandName = (typeof CONTROL_COMMANDS)[number];
+
+export interface TriggerCommandOptions {
+  model?: string;
+  maxTurns?: number;
+}
+
+export interface TriggerCommand {
+  command?: TriggerCommandName;
+  options: TriggerCommandOptions;
+  prompt: string;
+}
+
+const COMMAND_DESCRIPTIONS: Record<TriggerCommandName, string> = {
+  review: "review the merge request and point out issues",
+  fix: "implement the requested change and push a commit",
+  explain: "explain the code or discussion in question",
+  describe: "write a title and description for the merge request or issue",
+  help: "show this message",
+  stop: "cancel the current run",
+  retry: "run the last request again",
+  status: "show the state of the current or last run",
+};
+
+const MODEL_OPTION = /(?<=^|\s)--model(?:=|\s+)([\w.:[\]-]+)(?=\s|$)/i;
+const MAX_TURNS_OPTION = /(?<=^|\s)--max-turns(?:=|\s+)(\d+)(?=\s|$)/i;
+
+export function escapeRegExp(string: string): string {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// The phrase may be followed by punctuation or a possessive, as in
+// "@claude's", but not by more of a word, as in "@claude-bot"
+function triggerRegExp(triggerPhrase: string): RegExp {
+  return new RegExp(
+    `(^|\\s)${escapeRegExp(triggerPhrase)}(?=[\\s.,!?;:'’]|$)`,
+    "i",
+  );
+}
+
+export function isTriggerCommand(word: string): word is TriggerCommandName {
+  return (TRIGGER_COMMANDS as readonly string[]).includes(word);
+}
+
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, " ");
+}
+
+/**
+ * Blank out fenced code, inline code, blockquotes and HTML comments, so
+ * quoted or pasted mentions do not trigger a run. Offsets are preserved.
+ */
+function maskIgnoredText(text: string): string {
+  let fence: string | undefined;
+
+  return text
+    .replace(/<!--[\s\S]*?(?:-->|$)/g, blank)
+    .split("\n")
+    .map((line) => {
+      const marker = line.match(/^ {0,3}(`{3,}|~{3,})/)?.[1];
+      if (fence) {
+        if (marker?.startsWith(fence)) {
+          fence = undefined;
+        }
+        return blank(line);
+      }
+      if (marker) {
+        fence = marker;
+        return blank(line);
+      }
+      return /^ {0,3}>/.test(line) ? blank(line) : line;
+    })
+    .join("\n")
+    .replace(/(`+)[^`\n]+\1/g, blank);
+}
+
+export function isControlCommand(
+  command: TriggerCommandName,
+): command is ControlCommandName {
+  return (CONTROL_COMMANDS as readonly string[]).includes(command);
+}
+
+/**
+ * Whether the text mentions the trigger phrase as a standalone word outside
+ * of code and quotes
+ */
+export function containsTriggerPhrase(
+  text: string,
+  triggerPhrase: string,
+): boolean {
+  return triggerRegExp(triggerPhrase).test(maskIgnoredText(text));
+}
+
+/**
+ * Parse the command following the first trigger phrase mention outside of
+ * code and quotes. Returns null when there is no such mention. Options with
+ * invalid values are left in the prompt.
+ */
+export function parseTriggerCommand(
+  text: string,
+  triggerPhrase: string,
+): TriggerCommand | null {
+  const masked = maskIgnoredText(text);
+  const match = triggerRegExp(triggerPhrase).exec(masked);
+  if (!match) {
+    return null;
+  }
+
+  // The masked copy locates the command and options, the prompt keeps the
+  // code and quotes that follow the mention
+  const offset = match.index + match[0].length;
+  let rest = text.slice(offset);
+  let maskedRest = masked.slice(offset);
+  const remove = (start: number, end: number) => {
+    rest = rest.slice(0, start) + rest.slice(end);
+    maskedRest = maskedRest.slice(0, start) + maskedRest.slice(end);
+  };
+  const result: TriggerCommand = { options: {}, prompt: "" };
+
+  // Measured on the original text, code and quotes read as blanks in the
+  // masked copy
+  remove(0, rest.match(/^[.,!?;:]?\s*/)?.[0].length ?? 0);
+
+  const word = maskedRest.match(/^([a-z]+)(?:[.,!?;:]|(?=\s|$))/i);
+  const name = word?.[1]?.toLowerCase();
+  // Control commands only count on their own, "@claude stop using any here"
+  // or "@claude help me refactor this" are requests
+  const standalone = !!word && rest.slice(word[0].length).trim() === "";
+  if (
+    word &&
+    name &&
+    isTriggerCommand(name) &&
+    (!isControlCommand(name) || standalone)
+  ) {
+    result.command = name;
+    remove(0, word[0].length);
+  }
+
+  const model = MODEL_OPTION.exec(maskedRest);
+  if (model) {
+    result.options.model = model[1];
+    remove(model.index, model.index + model[0].length);
+  }
+
+  const maxTurns = MAX_TURNS_OPTION.exec(maskedRest);
+  if (maxTurns && Number(maxTurns[1]) > 0) {
+    result.options.maxTurns = Number(maxTurns[1]);
+    remove(maxTurns.index, maxTurns.index + maxTurns[0].length);
+  }
+
+  result.prompt = rest.trim();
+  return result;
+}
+
+/**
+ * Usage text for the help command
+ */
+export function formatCommandHelp(triggerPhrase: string): string {
+  const commands = TRIGGER_COMMANDS.map(
+    (command) =>
+      `- \`${triggerPhrase} ${command}\`: ${COMMAND_DESCRIPTIONS[command]}`,
+  );
+
+  return [
+    `Mention \`${triggerPhrase}\` followed by a command or by what you need:`,
+    "",
+    ...commands,
+    "",
+    "Help, stop, retry and status only work on their own, without further text. Only the requester of a run and maintainers may stop, retry or check it.",
+    "",
+    "Options:",
+    "",
+    "- `--model <name>`: use a different Claude model for this run",
+    "- `--max-turns <n>`: limit the number of conversation turns",
+    "",
+    `For example: \`${triggerPhrase} fix --max-turns 20 handle the empty list case\``,
+  ].join("\n");
+}
@@ -5,10 +5,9 @@
  */
 
 import type { GitLabWebhookPayload } from "../types";
+import { containsTriggerPhrase } from "./command";
 
-export function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
+export { escapeRegExp } from "./command";
 
 export interface GitLabTriggerContext {
   payload: GitLabWebhookPayload;
@@ -31,12 +30,6 @@ export function checkContainsTrigger(context: GitLabTriggerContext): boolean {
     return false;
   }
 
-  // Create regex for trigger phrase detection
-  const regex = new RegExp(
-    `(^|\\s)${escapeRegExp(triggerPhrase)}([\\s.,!?;:]|$)`,
-    "i",
-  );
-
   // Check merge request description and title
   if (payload.object_kind === "merge_request") {
     const mr = payload.merge_request || payload.object_attributes;
@@ -45,14 +38,14 @@ export function checkContainsTrigger(context: GitLabTriggerContext): boolean {
     const description = mr.description || "";
     const title = mr.title || "";
 
-    if (regex.test(description)) {
+    if (containsTriggerPhrase(description, triggerPhrase)) {
       console.log(
         `Merge request description contains trigger phrase '${triggerPhrase}'`,
       );
       return true;
     }
 
-    if (regex.test(title)) {
+    if (containsTriggerPhrase(title, triggerPhrase)) {
       console.log(
         `Merge request title contains trigger phrase '${triggerPhrase}'`,
       );
@@ -66,7 +59,10 @@ export function checkContainsTrigger(context: GitLabTriggerContext): boolean {
     const noteableType = payload.object_attributes?.noteable_type;
 
     // Only trigger on MR notes
-    if (noteableType === "MergeRequest" && regex.test(note)) {
+    if (
+      noteableType === "MergeRequest" &&
+      containsTriggerPhrase(note, triggerPhrase)
+    ) {
       console.log(
         `Merge request comment contains trigger phrase '${triggerPhrase}'`,
       );
@@ -82,14 +78,14 @@ export function checkContainsTrigger(context: GitLabTriggerContext): boolean {
     const description = issue.description || "";
     const title = issue.title || "";
 
-    if (regex.test(description)) {
+    if (containsTriggerPhrase(description, triggerPhrase)) {
       console.log(
         `Issue description contains trigger phrase '${triggerPhrase}'`,
       );
       return true;
     }
 
-    if (regex.test(title)) {
+    if (containsTriggerPhrase(title, triggerPhrase)) {
       console.log(`Issue title contains trigger phrase '${triggerPhrase}'`);
       return true;
     }
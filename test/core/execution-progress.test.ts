@@ -0,0 +1,115 @@
+import { describe, expect, test } from "bun:test";
+import { ExecutionProgress } from "../../src/core/execution-progress";
+
+const assistant = (...content: unknown[]) =>
+  JSON.stringify({ type: "assistant", message: { content } });
+const toolUse = (name: string, input: Record<string, unknown>) =>
+  assistant({ type: "tool_use", name, input });
+
+describe("ExecutionProgress", () => {
+  test("starts with the workspace setup and no progress", () => {
+    const body = new ExecutionProgress().format("https://ci/jobs/1");
+
+    expect(body).toStartWith("🤖 Claude is working on this...");
+    expect(body).toContain("[View job details](https://ci/jobs/1)");
+    expect(body).toContain("- [ ] Setting up workspace");
+    expect(body).toContain("- Current phase: Setting up workspace");
+    expect(body).toContain("- Tool calls: 0");
+    expect(body).not.toContain("**Files touched**");
+  });
+
+  test("moves through the phases as Claude works", () => {
+    const progress = new ExecutionProgress();
+
+    progress.consume(JSON.stringify({ type: "system", subtype: "init" }));
+    expect(progress.phase).toBe("Analyzing request");
+
+    progress.consume(toolUse("Read", { file_path: "src/a.ts" }));
+    progress.consume(toolUse("Bash", { command: "bun test" }));
+    expect(progress.phase).toBe("Analyzing request");
+
+    progress.consume(toolUse("Write", { file_path: "src/a.ts" }));
+    expect(progress.phase).toBe("Implementing changes");
+
+    progress.consume(toolUse("Bash", { command: "bun test" }));
+    progress.consume(toolUse("Edit", { file_path: "src/b.ts" }));
+    expect(progress.phase).toBe("Running tests");
+
+    const body = progress.format("https://ci/jobs/1");
+    expect(body).toContain("- [x] Implementing changes\n- [ ] Running tests");
+    expect(body).toContain("- Tool calls: 5");
+  });
+
+  test("lists touched files relative to the workspace", () => {
+    const progress = new ExecutionProgress("/builds/group/project");
+
+    progress.consume(
+      toolUse("Edit", { file_path: "/builds/group/project/src/a.ts" }),
+    );
+    progress.consume(
+      toolUse("NotebookEdit", { notebook_path: "/tmp/analysis.ipynb" }),
+    );
+    progress.consume(
+      toolUse("Edit", { file_path: "/builds/group/project/src/a.ts" }),
+    );
+    for (let index = 0; index < 10; index++) {
+      progress.consume(toolUse("Write", { file_path: `docs/${index}.md` }));
+    }
+
+    const body = progress.format("https://ci/jobs/1");
+    expect(body).toContain(
+      "**Files touched**\n- `src/a.ts`\n- `/tmp/analysis.ipynb`",
+    );
+    expect(body).toContain("- …and 2 more");
+  });
+
+  test("shows the latest todo list", () => {
+    const progress = new ExecutionProgress();
+
+    progress.consume(
+      toolUse("TodoWrite", {
+        todos: [{ content: "Outdated", status: "pending" }],
+      }),
+    );
+    progress.consume(
+      toolUse("TodoWrite", {
+        todos: [
+          { content: "Fix parser", status: "completed" },
+          { content: "Write tests", status: "in_progress" },
+          { content: "Update docs", status: "unknown" },
+        ],
+      }),
+    );
+
+    expect(progress.format("https://ci/jobs/1")).toContain(
+      "**Todo list**\n- ✅ Fix parser\n- 🔄 Write tests\n- ⬜ Update docs",
+    );
+  });
+
+  test("keeps Claude's own update of the comment", () => {
+    const progress = new ExecutionProgress();
+
+    progress.consume(
+      toolUse("mcp__gitlab__update_claude_comment", {
+        body: "Found the cause, fixing the parser\n",
+      }),
+    );
+
+    expect(progress.format("https://ci/jobs/1")).toEndWith(
+      "**Claude's update**\nFound the cause, fixing the parser",
+    );
+  });
+
+  test("ignores incomplete lines and other messages", () => {
+    const progress = new ExecutionProgress();
+
+    progress.consume('{"type":"assistant","message":{"con');
+    progress.consume(
+      JSON.stringify({ type: "user", message: { content: [] } }),
+    );
+    progress.consume(assistant({ type: "text", text: "Looking into it" }));
+
+    expect(progress.phase).toBe("Analyzing request");
+    expect(progress.format("https://ci/jobs/1")).toContain("- Tool calls: 0");
+  });
+});
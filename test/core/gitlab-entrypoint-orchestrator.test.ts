@@ -4,6 +4,7 @@ import { EnvVar } from "../../src/types";
 
 describe("EntrypointOrchestrator", () => {
   let orchestrator: GitLabEntrypointOrchestrator;
+  let gitLabService: any;
   let mockServices: {
     environment: any;
     logger: any;
@@ -11,6 +12,7 @@ describe("EntrypointOrchestrator", () => {
     fileSystem: any;
     commandExecution: any;
     tempDirectory: any;
+    httpClient: any;
     gitlabData: any;
     gitlabContext: any;
   };
@@ -215,6 +217,11 @@ describe("EntrypointOrchestrator", () => {
         getTempDirectory: mock(() => "/tmp"),
         cleanup: mock(async () => {}),
       },
+      httpClient: {
+        fetch: mock(
+          async () => new Response(JSON.stringify({ released: true })),
+        ),
+      },
       gitlabData: {
         fetchData: mock(async () => ({})),
         fetchPipelineData: mock(async () => ({})),
@@ -234,7 +241,7 @@ describe("EntrypointOrchestrator", () => {
 
     // Create a mock GitLab service
     const mockGitLabService = {
-      getContext: mock(() => ({
+      getContext: mock(async () => ({
         isPR: true,
         entityNumber: 456,
         actor: "test-user",
@@ -293,10 +300,15 @@ describe("EntrypointOrchestrator", () => {
       getBranch: mock(async () => null),
       setupGitAuth: mock(async () => {}),
       applySuggestions: mock(async () => {}),
+      createInlineDiscussion: mock(async () => "discussion-1"),
+      replyToDiscussion: mock(async () => 1),
+      getPipelineJobs: mock(async () => []),
+      getJobLog: mock(async () => ""),
       getJobUrl: mock(() => "https://gitlab.com/test/test/-/pipelines/123"),
       getFileContent: mock(async () => "test content"),
     };
 
+    gitLabService = mockGitLabService;
     orchestrator = new GitLabEntrypointOrchestrator(
       mockServices.logger,
       mockServices.environment,
@@ -304,6 +316,7 @@ describe("EntrypointOrchestrator", () => {
       mockServices.commandExecution,
       mockServices.tempDirectory,
       mockGitLabService,
+      mockServices.httpClient,
     );
   });
 
@@ -434,6 +447,193 @@ describe("EntrypointOrchestrator", () => {
     });
   });
 
+  describe("Resource Lock", () => {
+    test("releases the lock when the pipeline ends", async () => {
+      mockServices.environment.setVar(
+        EnvVar.CLAUDE_LOCK_RELEASE_URL,
+        "https://claude.example.com/jobs/job-1/lock",
+      );
+      mockServices.environment.setVar(
+        EnvVar.WEBHOOK_PAYLOAD_TOKEN,
+        "payload-token",
+      );
+      mockServices.commandExecution.executeQuiet.mockImplementation(
+        async () => ({
+          stdout: "No trigger found",
+          stderr: "",
+          exitCode: 0,
+        }),
+      );
+
+      const exitCode = await orchestrator.run();
+
+      expect(exitCode).toBe(0);
+      expect(mockServices.httpClient.fetch).toHaveBeenCalledWith(
+        "https://claude.example.com/jobs/job-1/lock",
+        {
+          method: "DELETE",
+          headers: { Authorization: "Bearer payload-token" },
+        },
+      );
+    });
+
+    test("skips lock release without a release URL", async () => {
+      mockServices.commandExecution.executeQuiet.mockImplementation(
+        async () => ({
+          stdout: "",
+          stderr: "Prepare failed",
+          exitCode: 1,
+        }),
+      );
+
+      await orchestrator.run();
+
+      expect(mockServices.httpClient.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Anthropic Key Reference", () => {
+    test("uses the API key from the referenced variable", async () => {
+      mockServices.environment.setVar(
+        EnvVar.CLAUDE_ANTHROPIC_KEY_REF,
+        "TEAM_A_ANTHROPIC_KEY",
+      );
+      mockServices.environment.setVar("TEAM_A_ANTHROPIC_KEY", "team-a-key");
+      mockServices.environment.setVar(EnvVar.ANTHROPIC_API_KEY, "shared-key");
+      mockServices.fileSystem.files["/tmp/claude-comment-id.txt"] = "123";
+      mockServices.commandExecution.executeQuiet.mockImplementation(
+        async () => ({
+          stdout: "Prepare phase completed successfully",
+          stderr: "",
+          exitCode: 0,
+        }),
+      );
+
+      await orchestrator.run();
+
+      const claudeRun = mockServices.commandExecution.execute.mock.calls.find(
+        ([command]: [string]) => command.startsWith("claude "),
+      );
+      expect(claudeRun?.[1]?.env?.ANTHROPIC_API_KEY).toBe("team-a-key");
+    });
+  });
+
+  describe("GitLab MCP Server", () => {
+    beforeEach(() => {
+      mockServices.fileSystem.files["/tmp/claude-comment-id.txt"] = "123";
+      mockServices.environment.setVar(
+        EnvVar.CLAUDE_RESOURCE_TYPE,
+        "merge_request",
+      );
+      mockServices.environment.setVar(EnvVar.CLAUDE_RESOURCE_ID, "456");
+      mockServices.environment.setVar(EnvVar.ALLOWED_TOOLS, "Bash,Edit");
+      delete mockServices.environment.vars[EnvVar.CI_MERGE_REQUEST_IID];
+      mockServices.commandExecution.executeQuiet.mockImplementation(
+        async () => ({
+          stdout: "Prepare phase completed successfully",
+          stderr: "",
+          exitCode: 0,
+        }),
+      );
+    });
+
+    test("passes the MCP server config to Claude", async () => {
+      await orchestrator.run();
+
+      const configPath = "/tmp/claude-prompts/mcp-config.json";
+      const config = JSON.parse(mockServices.fileSystem.files[configPath]);
+      const server = config.mcpServers.gitlab;
+      expect(server.args[1]).toEndWith("entrypoints/gitlab-mcp-server.ts");
+      expect(server.env).toMatchObject({
+        CI_PROJECT_ID: "123",
+        CI_MERGE_REQUEST_IID: "456",
+        CLAUDE_COMMENT_ID: "123",
+        GITLAB_TOKEN: "mock-token",
+      });
+
+      const claudeRun = mockServices.commandExecution.execute.mock.calls.find(
+        ([command]: [string]) => command.startsWith("claude "),
+      );
+      expect(claudeRun?.[0]).toContain(`--mcp-config ${configPath}`);
+      expect(claudeRun?.[0]).toContain(
+        "--allowed-tools Bash,Edit,mcp__gitlab__update_claude_comment,",
+      );
+      expect(claudeRun?.[0]).toContain("mcp__gitlab__read_job_log");
+    });
+
+    test("keeps the default tools without ALLOWED_TOOLS", async () => {
+      delete mockServices.environment.vars[EnvVar.ALLOWED_TOOLS];
+
+      await orchestrator.run();
+
+      const claudeRun = mockServices.commandExecution.execute.mock.calls.find(
+        ([command]: [string]) => command.startsWith("claude "),
+      );
+      expect(claudeRun?.[0]).toContain("--mcp-config");
+      expect(claudeRun?.[0]).not.toContain("--allowed-tools");
+    });
+  });
+
+  describe("Progress Updates", () => {
+    const outputPath = "/tmp/claude-output.jsonl";
+    const toolUse = (name: string, input: Record<string, unknown>) =>
+      JSON.stringify({
+        type: "assistant",
+        message: { content: [{ type: "tool_use", name, input }] },
+      });
+
+    beforeEach(() => {
+      mockServices.fileSystem.files["/tmp/claude-comment-id.txt"] = "123";
+      mockServices.environment.setVar(EnvVar.CI_PROJECT_DIR, "/builds/g/p");
+      mockServices.commandExecution.executeQuiet.mockImplementation(
+        async () => ({
+          stdout: "Prepare phase completed successfully",
+          stderr: "",
+          exitCode: 0,
+        }),
+      );
+      mockServices.commandExecution.execute.mockImplementation(
+        async (command: string) => {
+          if (command.startsWith("claude ")) {
+            mockServices.fileSystem.files[outputPath] = [
+              JSON.stringify({ type: "system", subtype: "init" }),
+              toolUse("TodoWrite", {
+                todos: [
+                  { content: "Fix parser", status: "completed" },
+                  { content: "Write tests", status: "in_progress" },
+                ],
+              }),
+              toolUse("Edit", { file_path: "/builds/g/p/src/parser.ts" }),
+              '{"type":"assistant","mess',
+            ].join("\n");
+          }
+          return { stdout: "", stderr: "", exitCode: 0 };
+        },
+      );
+    });
+
+    test("reports Claude's progress in the tracking comment", async () => {
+      await orchestrator.run();
+
+      expect(gitLabService.updateComment).toHaveBeenCalledTimes(1);
+      const [{ commentId, body }] = gitLabService.updateComment.mock.calls[0];
+      expect(commentId).toBe("123");
+      expect(body).toContain("- [x] Analyzing request");
+      expect(body).toContain("- Current phase: Implementing changes");
+      expect(body).toContain("- Tool calls: 2");
+      expect(body).toContain("- `src/parser.ts`");
+      expect(body).toContain("- 🔄 Write tests");
+    });
+
+    test("skips progress updates when disabled", async () => {
+      mockServices.environment.setVar(EnvVar.CLAUDE_PROGRESS_INTERVAL, "0");
+
+      await orchestrator.run();
+
+      expect(gitLabService.updateComment).not.toHaveBeenCalled();
+    });
+  });
+
   describe("Service Integration", () => {
     test("orchestrator integrates all services correctly", () => {
       // Verify that the orchestrator can work with all injected services
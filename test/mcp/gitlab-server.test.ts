@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { GITLAB_MCP_TOOLS } from "../../src/mcp/gitlab-tools";
+import { GitLabMcpServer } from "../../src/mcp/gitlab.server";
+import { EnvVar } from "../../src/types";
+
+describe("GitLabMcpServer", () => {
+  let environmentVars: Record<string, string>;
+  let gitLabService: any;
+  let client: Client;
+
+  const text = (result: any) => result.content[0].text;
+
+  beforeEach(async () => {
+    environmentVars = {
+      [EnvVar.CLAUDE_COMMENT_ID]: "789",
+      [EnvVar.CI_COMMIT_SHA]: "abc123",
+    };
+    const environment: any = {
+      get: mock((key: string) => environmentVars[key]),
+    };
+    gitLabService = {
+      updateComment: mock(async () => {}),
+      createInlineDiscussion: mock(async () => "discussion-1"),
+      replyToDiscussion: mock(async () => 42),
+      getFileContent: mock(async () => "file content"),
+      getChangedFiles: mock(async () => [
+        {
+          path: "src/index.ts",
+          additions: 2,
+          deletions: 1,
+          changes: 3,
+          patch: "@@ -1 +1,2 @@\n-old\n+new\n+line",
+        },
+      ]),
+      getPipelineJobs: mock(async () => [
+        { id: 7, name: "test", stage: "test", status: "failed" },
+      ]),
+      getJobLog: mock(async () => `${"x".repeat(30000)}FAILED`),
+      getJobUrl: mock(() => "https://gitlab.com/g/p/-/jobs/1"),
+    };
+
+    const server = new GitLabMcpServer(environment, gitLabService).create();
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    client = new Client({ name: "test", version: "1.0.0" });
+    await Promise.all([
+      server.connect(serverTransport),
+      client.connect(clientTransport),
+    ]);
+  });
+
+  test("lists the GitLab tools", async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name).sort()).toEqual([
+      "create_inline_discussion",
+      "list_mr_changes",
+      "list_pipeline_jobs",
+      "read_file",
+      "read_job_log",
+      "reply_to_discussion",
+      "update_claude_comment",
+    ]);
+    expect(tools.map((tool) => tool.name).sort()).toEqual(
+      [...GITLAB_MCP_TOOLS].sort(),
+    );
+  });
+
+  test("updates the tracking comment keeping its header and job link", async () => {
+    await client.callTool({
+      name: "update_claude_comment",
+      arguments: { body: "Found the bug" },
+    });
+
+    const [{ commentId, body }] = gitLabService.updateComment.mock.calls[0];
+    expect(commentId).toBe("789");
+    expect(body).toStartWith("🤖 Claude is working on this...");
+    expect(body).toContain(
+      "[View job details](https://gitlab.com/g/p/-/jobs/1)",
+    );
+    expect(body).toEndWith("---\nFound the bug");
+  });
+
+  test("creates inline discussions and replies", async () => {
+    const created = await client.callTool({
+      name: "create_inline_discussion",
+      arguments: { path: "src/index.ts", line: 2, body: "Off by one" },
+    });
+    const replied = await client.callTool({
+      name: "reply_to_discussion",
+      arguments: { discussion_id: "discussion-1", body: "Fixed" },
+    });
+
+    expect(gitLabService.createInlineDiscussion).toHaveBeenCalledWith({
+      path: "src/index.ts",
+      line: 2,
+      body: "Off by one",
+    });
+    expect(text(created)).toContain("discussion-1");
+    expect(gitLabService.replyToDiscussion).toHaveBeenCalledWith({
+      discussionId: "discussion-1",
+      body: "Fixed",
+    });
+    expect(text(replied)).toBe("Replied with note 42");
+  });
+
+  test("reads files at the pipeline commit by default", async () => {
+    await client.callTool({
+      name: "read_file",
+      arguments: { path: "README.md" },
+    });
+    await client.callTool({
+      name: "read_file",
+      arguments: { path: "README.md", ref: "main" },
+    });
+
+    expect(gitLabService.getFileContent.mock.calls).toEqual([
+      ["README.md", "abc123"],
+      ["README.md", "main"],
+    ]);
+  });
+
+  test("lists merge request changes and pipeline jobs", async () => {
+    const changes = await client.callTool({
+      name: "list_mr_changes",
+      arguments: {},
+    });
+    const jobs = await client.callTool({
+      name: "list_pipeline_jobs",
+      arguments: {},
+    });
+
+    expect(text(changes)).toContain("### src/index.ts (+2 -1)");
+    expect(text(changes)).toContain("+new");
+    expect(text(jobs)).toBe("- 7: test (stage test) failed");
+  });
+
+  test("returns the end of long job logs", async () => {
+    const result = await client.callTool({
+      name: "read_job_log",
+      arguments: { job_id: 7 },
+    });
+
+    expect(text(result)).toStartWith(
+      "[Showing the last 20000 of 30006 characters]",
+    );
+    expect(text(result)).toEndWith("FAILED");
+  });
+
+  test("reports failures as tool errors", async () => {
+    gitLabService.createInlineDiscussion.mockImplementation(async () => {
+      throw new Error("Line is not part of the diff");
+    });
+
+    const result = await client.callTool({
+      name: "create_inline_discussion",
+      arguments: { path: "src/index.ts", line: 99, body: "Nit" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(text(result)).toBe("Error: Line is not part of the diff");
+  });
+
+  test("fails to update the comment without a tracking comment", async () => {
+    delete environmentVars[EnvVar.CLAUDE_COMMENT_ID];
+
+    const result = await client.callTool({
+      name: "update_claude_comment",
+      arguments: { body: "Done" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(gitLabService.updateComment).not.toHaveBeenCalled();
+  });
+});
@@ -5,6 +5,7 @@ describe("GitLabContextService", () => {
   let contextService: GitLabContextService;
 
   let mockEnvironmentService: any;
+  let mockHttpClient: any;
 
   beforeEach(() => {
     // Create mock environment service using bun:test mock functions
@@ -26,7 +27,14 @@ describe("GitLabContextService", () => {
       }),
     };
 
-    contextService = new GitLabContextService(mockEnvironmentService);
+    mockHttpClient = {
+      fetch: mock(() => Promise.resolve(new Response("{}"))),
+    };
+
+    contextService = new GitLabContextService(
+      mockEnvironmentService,
+      mockHttpClient,
+    );
 
     // Reset the module-level cache in the GitLabContextService
     // This is needed because the service caches context and webhook payload at module level
@@ -129,7 +137,24 @@ describe("GitLabContextService", () => {
     expect(context.mrIid).toBe("explicit-mr");
   });
 
-  test("parseWebhookPayload with merge request payload", () => {
+  test("getHost falls back to GITLAB_URL outside of CI", () => {
+    mockEnvironmentService.vars = {
+      GITLAB_URL: "https://gitlab.internal.com",
+    };
+
+    expect(contextService.getHost()).toBe("https://gitlab.internal.com");
+  });
+
+  test("getHost prefers CI_SERVER_URL over GITLAB_URL", () => {
+    mockEnvironmentService.vars = {
+      CI_SERVER_URL: "https://gitlab.example.com",
+      GITLAB_URL: "https://gitlab.internal.com",
+    };
+
+    expect(contextService.getHost()).toBe("https://gitlab.example.com");
+  });
+
+  test("parseWebhookPayload with merge request payload", async () => {
     const payload = {
       object_kind: "merge_request" as const,
       user: {
@@ -154,36 +179,78 @@ describe("GitLabContextService", () => {
       GITLAB_WEBHOOK_PAYLOAD: JSON.stringify(payload),
     };
 
-    const parsed = contextService.parseWebhookPayload();
+    const parsed = await contextService.parseWebhookPayload();
 
     expect(parsed).toEqual(payload);
   });
 
-  test("parseWebhookPayload returns null when no payload exists", () => {
+  test("parseWebhookPayload returns null when no payload exists", async () => {
     mockEnvironmentService.vars = {};
 
-    const parsed = contextService.parseWebhookPayload();
+    const parsed = await contextService.parseWebhookPayload();
 
     expect(parsed).toBeNull();
   });
 
-  test("parseWebhookPayload returns null for invalid JSON", () => {
+  test("parseWebhookPayload returns null for invalid JSON", async () => {
     mockEnvironmentService.vars = {
       GITLAB_WEBHOOK_PAYLOAD: "invalid json",
     };
 
-    const parsed = contextService.parseWebhookPayload();
+    const parsed = await contextService.parseWebhookPayload();
 
     expect(parsed).toBeNull();
   });
 
-  test("parseWebhookPayload handles empty payload", () => {
+  test("parseWebhookPayload handles empty payload", async () => {
     mockEnvironmentService.vars = {
       GITLAB_WEBHOOK_PAYLOAD: "",
     };
 
-    const parsed = contextService.parseWebhookPayload();
+    const parsed = await contextService.parseWebhookPayload();
 
     expect(parsed).toBeNull();
   });
+
+  test("parseWebhookPayload fetches the referenced payload", async () => {
+    const payload = {
+      object_kind: "note" as const,
+      object_attributes: {
+        id: 1,
+        note: "@claude help",
+        discussion_id: "abc123",
+      },
+    };
+    mockHttpClient.fetch = mock(() =>
+      Promise.resolve(new Response(JSON.stringify(payload))),
+    );
+    mockEnvironmentService.vars = {
+      GITLAB_WEBHOOK_PAYLOAD_REF: "https://claude.example.com/payloads/42",
+      WEBHOOK_PAYLOAD_TOKEN: "payload-token",
+      GITLAB_WEBHOOK_PAYLOAD: JSON.stringify({ object_kind: "note" }),
+    };
+
+    const parsed = await contextService.parseWebhookPayload();
+
+    expect(parsed).toEqual(payload);
+    expect(mockHttpClient.fetch).toHaveBeenCalledWith(
+      "https://claude.example.com/payloads/42",
+      { headers: { Authorization: "Bearer payload-token" } },
+    );
+  });
+
+  test("parseWebhookPayload falls back to the inline payload", async () => {
+    const inlinePayload = { object_kind: "note" as const };
+    mockHttpClient.fetch = mock(() =>
+      Promise.resolve(new Response("Not Found", { status: 404 })),
+    );
+    mockEnvironmentService.vars = {
+      GITLAB_WEBHOOK_PAYLOAD_REF: "https://claude.example.com/payloads/42",
+      GITLAB_WEBHOOK_PAYLOAD: JSON.stringify(inlinePayload),
+    };
+
+    const parsed = await contextService.parseWebhookPayload();
+
+    expect(parsed).toEqual(inlinePayload);
+  });
 });
@@ -149,7 +149,8 @@ describe("GitLabService", () => {
         commitBranch: "main",
         triggerSource: undefined,
       })),
-      parseWebhookPayload: mock(() => null),
+      getHost: mock(() => "https://gitlab.com"),
+      parseWebhookPayload: mock(() => Promise.resolve(null)),
       resetCache: mock(() => {}),
     };
 
@@ -187,8 +188,8 @@ describe("GitLabService", () => {
   });
 
   describe("Context management", () => {
-    test("getContext returns SCM context for merge request", () => {
-      const context = provider.getContext();
+    test("getContext returns SCM context for merge request", async () => {
+      const context = await provider.getContext();
 
       expect(context).toMatchObject({
         actor: "testuser",
@@ -199,7 +200,7 @@ describe("GitLabService", () => {
       });
     });
 
-    test("getContext returns SCM context without merge request", () => {
+    test("getContext returns SCM context without merge request", async () => {
       // Create a mock context without MR IID
       const noMrContext = {
         getContext: mock(() => ({
@@ -214,7 +215,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
@@ -228,7 +230,7 @@ describe("GitLabService", () => {
         tokenService,
       );
 
-      const context = providerNoMR.getContext();
+      const context = await providerNoMR.getContext();
 
       expect(context).toMatchObject({
         isPR: false,
@@ -255,7 +257,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
@@ -295,7 +298,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
@@ -330,7 +334,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
@@ -364,7 +369,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
@@ -398,7 +404,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
@@ -434,7 +441,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
@@ -468,7 +476,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
@@ -502,7 +511,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
@@ -564,6 +574,94 @@ describe("GitLabService", () => {
     });
   });
 
+  describe("Bot note marker", () => {
+    test("createComment embeds the bot note marker", async () => {
+      await provider.createComment("🤖 Claude is working on this...");
+
+      expect(gitLabClient.createMergeRequestNote).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: "🤖 Claude is working on this...\n\n<!-- claude-bot-note -->",
+        }),
+      );
+    });
+
+    test("updateComment keeps a single bot note marker", async () => {
+      await provider.updateComment({
+        commentId: "1",
+        body: "Done\n\n<!-- claude-bot-note -->",
+      });
+
+      expect(gitLabClient.editMergeRequestNote).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: "Done\n\n<!-- claude-bot-note -->",
+        }),
+      );
+    });
+  });
+
+  describe("Discussions", () => {
+    test("createInlineDiscussion positions the note on the new line", async () => {
+      gitLabClient.showMergeRequest.mockImplementation(() =>
+        Promise.resolve({
+          iid: 45,
+          diff_refs: { base_sha: "b1", start_sha: "s1", head_sha: "h1" },
+        }),
+      );
+      gitLabClient.createMergeRequestDiscussion.mockImplementation(() =>
+        Promise.resolve({ id: "d1" }),
+      );
+
+      const discussionId = await provider.createInlineDiscussion({
+        path: "src/index.ts",
+        line: 12,
+        body: "Off by one",
+      });
+
+      expect(discussionId).toBe("d1");
+      expect(gitLabClient.createMergeRequestDiscussion).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: "Off by one\n\n<!-- claude-bot-note -->",
+          options: {
+            position: expect.objectContaining({
+              baseSha: "b1",
+              startSha: "s1",
+              headSha: "h1",
+              newPath: "src/index.ts",
+              newLine: "12",
+            }),
+          },
+        }),
+      );
+    });
+
+    test("replyToDiscussion replies to the first note of the thread", async () => {
+      gitLabClient.allMergeRequestDiscussions.mockImplementation(() =>
+        Promise.resolve([{ id: "d1", notes: [{ id: 7 }, { id: 8 }] }]),
+      );
+      gitLabClient.createMergeRequestDiscussionNote = mock(() =>
+        Promise.resolve({ id: 9 }),
+      );
+
+      const noteId = await provider.replyToDiscussion({
+        discussionId: "d1",
+        body: "Fixed",
+      });
+
+      expect(noteId).toBe(9);
+      expect(
+        gitLabClient.createMergeRequestDiscussionNote,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ discussionId: "d1", noteId: 7 }),
+      );
+    });
+
+    test("replyToDiscussion fails for unknown discussions", async () => {
+      await expect(
+        provider.replyToDiscussion({ discussionId: "missing", body: "Hi" }),
+      ).rejects.toThrow("Discussion not found: missing");
+    });
+  });
+
   describe("Trigger validation", () => {
     test("checkTrigger returns true for direct prompt", async () => {
       const result = await provider.checkTrigger("@claude", "Fix the bug");
@@ -594,7 +692,8 @@ describe("GitLabService", () => {
           commitBranch: "main",
           triggerSource: undefined,
         })),
-        parseWebhookPayload: mock(() => null),
+        getHost: mock(() => "https://gitlab.com"),
+        parseWebhookPayload: mock(() => Promise.resolve(null)),
         resetCache: mock(() => {}),
       };
 
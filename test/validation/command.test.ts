@@ -0,0 +1,226 @@
+import { describe, expect, test } from "bun:test";
+import {
+  containsTriggerPhrase,
+  formatCommandHelp,
+  parseTriggerCommand,
+} from "../../src/validation/command";
+
+describe("containsTriggerPhrase", () => {
+  test("matches the trigger phrase followed by punctuation", () => {
+    expect(containsTriggerPhrase("thanks @claude!", "@claude")).toBe(true);
+    expect(containsTriggerPhrase("@claude, please look", "@claude")).toBe(true);
+  });
+
+  test("matches the possessive form of the trigger phrase", () => {
+    expect(containsTriggerPhrase("what is @claude's take?", "@claude")).toBe(
+      true,
+    );
+    expect(containsTriggerPhrase("ask @claude’s opinion", "@claude")).toBe(
+      true,
+    );
+  });
+
+  test("does not match the trigger phrase inside a longer word", () => {
+    expect(containsTriggerPhrase("ping @claude-bot", "@claude")).toBe(false);
+    expect(containsTriggerPhrase("mail me@claude", "@claude")).toBe(false);
+  });
+
+  test("ignores mentions in fenced code blocks", () => {
+    const text = "Still failing:\n```\nERROR @claude run failed\n```";
+    expect(containsTriggerPhrase(text, "@claude")).toBe(false);
+    expect(containsTriggerPhrase("~~~\n@claude\n", "@claude")).toBe(false);
+  });
+
+  test("ignores mentions in inline code", () => {
+    expect(
+      containsTriggerPhrase("type `@claude fix` to start", "@claude"),
+    ).toBe(false);
+  });
+
+  test("ignores mentions in blockquotes", () => {
+    const text = "> @claude review this\n\nThat run looked good";
+    expect(containsTriggerPhrase(text, "@claude")).toBe(false);
+  });
+
+  test("ignores mentions in HTML comments", () => {
+    expect(
+      containsTriggerPhrase("<!-- @claude\nreview -->Done", "@claude"),
+    ).toBe(false);
+  });
+
+  test("matches a mention after a closed code block", () => {
+    const text = "```\n@claude\n```\n@claude please look";
+    expect(containsTriggerPhrase(text, "@claude")).toBe(true);
+  });
+});
+
+describe("parseTriggerCommand", () => {
+  test("returns null without the trigger phrase", () => {
+    expect(parseTriggerCommand("please review", "@claude")).toBeNull();
+  });
+
+  test("keeps free text as the prompt when there is no command", () => {
+    expect(
+      parseTriggerCommand("@claude please add logging", "@claude"),
+    ).toEqual({
+      options: {},
+      prompt: "please add logging",
+    });
+  });
+
+  test("recognizes commands case insensitively", () => {
+    const result = parseTriggerCommand(
+      "Looks off. @claude Review: focus on auth",
+      "@claude",
+    );
+
+    expect(result?.command).toBe("review");
+    expect(result?.prompt).toBe("focus on auth");
+  });
+
+  test("recognizes control commands", () => {
+    for (const command of ["stop", "retry", "status"] as const) {
+      expect(
+        parseTriggerCommand(`@claude ${command}`, "@claude")?.command,
+      ).toBe(command);
+    }
+  });
+
+  test("treats help as a command only when it stands alone", () => {
+    expect(parseTriggerCommand("@claude help", "@claude")?.command).toBe(
+      "help",
+    );
+    expect(parseTriggerCommand("@claude help?", "@claude")?.command).toBe(
+      "help",
+    );
+    expect(
+      parseTriggerCommand("@claude help me refactor this function", "@claude"),
+    ).toEqual({
+      options: {},
+      prompt: "help me refactor this function",
+    });
+  });
+
+  test("treats control commands followed by a request as a prompt", () => {
+    for (const text of [
+      "@claude stop using any here and fix types",
+      "@claude status checks are red, fix them",
+      "@claude retry the failing test with a longer timeout",
+    ]) {
+      const result = parseTriggerCommand(text, "@claude");
+
+      expect(result?.command).toBeUndefined();
+      expect(result?.prompt).toBe(text.slice("@claude ".length));
+    }
+  });
+
+  test("recognizes control commands followed by punctuation", () => {
+    expect(parseTriggerCommand("@claude stop!", "@claude")?.command).toBe(
+      "stop",
+    );
+    expect(
+      parseTriggerCommand("Is it done? @claude status?", "@claude")?.command,
+    ).toBe("status");
+  });
+
+  test("only treats the first word as a command", () => {
+    const result = parseTriggerCommand("@claude please fix this", "@claude");
+
+    expect(result?.command).toBeUndefined();
+    expect(result?.prompt).toBe("please fix this");
+  });
+
+  test("does not treat words starting with a command as commands", () => {
+    const result = parseTriggerCommand("@claude fixed it already?", "@claude");
+
+    expect(result?.command).toBeUndefined();
+  });
+
+  test("extracts options and removes them from the prompt", () => {
+    const result = parseTriggerCommand(
+      "@claude fix --model opus --max-turns 20 handle empty lists",
+      "@claude",
+    );
+
+    expect(result).toEqual({
+      command: "fix",
+      options: { model: "opus", maxTurns: 20 },
+      prompt: "handle empty lists",
+    });
+  });
+
+  test("accepts options written with an equals sign", () => {
+    const result = parseTriggerCommand(
+      "@claude explain this --model=claude-sonnet-4-5",
+      "@claude",
+    );
+
+    expect(result?.options.model).toBe("claude-sonnet-4-5");
+    expect(result?.prompt).toBe("this");
+  });
+
+  test("leaves options with invalid values in the prompt", () => {
+    const result = parseTriggerCommand(
+      "@claude review --max-turns many",
+      "@claude",
+    );
+
+    expect(result?.options.maxTurns).toBeUndefined();
+    expect(result?.prompt).toBe("--max-turns many");
+  });
+
+  test("parses the unquoted mention and keeps code in the prompt", () => {
+    const result = parseTriggerCommand(
+      "> @claude review\n\nNot quite. @claude fix --max-turns 5 this:\n```\nTypeError --model x\n```",
+      "@claude",
+    );
+
+    expect(result).toEqual({
+      command: "fix",
+      options: { maxTurns: 5 },
+      prompt: "this:\n```\nTypeError --model x\n```",
+    });
+  });
+
+  test("keeps a code block right after the mention as the prompt", () => {
+    const text = "@claude\n```js\nconst x = items[0].id;\n```";
+
+    expect(parseTriggerCommand(text, "@claude")).toEqual({
+      options: {},
+      prompt: "```js\nconst x = items[0].id;\n```",
+    });
+  });
+
+  test("keeps a quote right after the mention as the prompt", () => {
+    expect(
+      parseTriggerCommand("@claude\n> TypeError: x is undefined", "@claude"),
+    ).toEqual({
+      options: {},
+      prompt: "> TypeError: x is undefined",
+    });
+  });
+
+  test("does not treat the possessive as a command", () => {
+    const result = parseTriggerCommand("@claude's review please", "@claude");
+
+    expect(result?.command).toBeUndefined();
+    expect(result?.prompt).toBe("'s review please");
+  });
+
+  test("works with custom trigger phrases", () => {
+    const result = parseTriggerCommand("/ai describe", "/ai");
+
+    expect(result?.command).toBe("describe");
+    expect(result?.prompt).toBe("");
+  });
+});
+
+describe("formatCommandHelp", () => {
+  test("lists every command with the trigger phrase", () => {
+    const help = formatCommandHelp("@bot");
+
+    for (const command of ["review", "fix", "explain", "describe", "help"]) {
+      expect(help).toContain(`\`@bot ${command}\``);
+    }
+  });
+});